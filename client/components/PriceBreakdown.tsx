@@ -0,0 +1,71 @@
+import { PriceBreakdown as PriceBreakdownData, PriceLine } from "@shared/api";
+import { useI18n } from "@/hooks/useI18n";
+
+interface PriceBreakdownProps {
+  breakdown: PriceBreakdownData;
+  formatPrice: (price: number) => string;
+}
+
+export function PriceBreakdown({
+  breakdown,
+  formatPrice,
+}: PriceBreakdownProps) {
+  const { t, formatMessage } = useI18n();
+
+  const rows: { label: string; line: PriceLine; show: boolean }[] = [
+    { label: t.deliveryCost, line: breakdown.delivery, show: true },
+    {
+      label: t.codFee,
+      line: breakdown.codFee,
+      show: breakdown.codFee.gross > 0,
+    },
+    {
+      label: t.declaredValueFee,
+      line: breakdown.declaredValueFee,
+      show: breakdown.declaredValueFee.gross > 0,
+    },
+  ];
+
+  return (
+    <table className="mt-3 w-full border-t text-sm">
+      <thead>
+        <tr className="text-xs text-gray-500">
+          <th className="pt-2 text-left font-normal"></th>
+          <th className="pt-2 text-right font-normal">{t.priceNet}</th>
+          <th className="pt-2 text-right font-normal">
+            {formatMessage(t.vat, {
+              rate: Math.round(breakdown.vatRate * 1000) / 10,
+            })}
+          </th>
+          <th className="pt-2 text-right font-normal">{t.priceGross}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows
+          .filter((row) => row.show)
+          .map((row) => (
+            <tr key={row.label}>
+              <td className="py-0.5 text-gray-600">{row.label}</td>
+              <td className="py-0.5 text-right">{formatPrice(row.line.net)}</td>
+              <td className="py-0.5 text-right">{formatPrice(row.line.vat)}</td>
+              <td className="py-0.5 text-right">
+                {formatPrice(row.line.gross)}
+              </td>
+            </tr>
+          ))}
+        <tr className="font-semibold">
+          <td className="py-0.5">{t.total}</td>
+          <td className="py-0.5 text-right">
+            {formatPrice(breakdown.total.net)}
+          </td>
+          <td className="py-0.5 text-right">
+            {formatPrice(breakdown.total.vat)}
+          </td>
+          <td className="py-0.5 text-right">
+            {formatPrice(breakdown.total.gross)}
+          </td>
+        </tr>
+      </tbody>
+    </table>
+  );
+}
@@ -15,9 +15,18 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from "@/components/ui/popover";
-import { Region, RegionCity } from "@shared/api";
+import {
+  CitySearchResponse,
+  CitySearchResult,
+  Region,
+  RegionCity,
+} from "@shared/api";
 import { useI18n } from "@/hooks/useI18n";
 
+const SEARCH_DEBOUNCE_MS = 300;
+// Enough for every city of the largest region when its name is searched
+const SEARCH_LIMIT = 25;
+
 interface RegionCityComboboxProps {
   value: RegionCity | null;
   onValueChange: (city: RegionCity | null) => void;
@@ -36,59 +45,79 @@ export function RegionCityCombobox({
   const [regions, setRegions] = useState<Region[]>([]);
   const [selectedRegion, setSelectedRegion] = useState<Region | null>(null);
   const [cities, setCities] = useState<RegionCity[]>([]);
-  const [allCities, setAllCities] = useState<RegionCity[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
+  const [searchResults, setSearchResults] = useState<CitySearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
   const [loading, setLoading] = useState(false);
   const [regionsLoading, setRegionsLoading] = useState(false);
 
-  // Fetch regions and all cities on component mount
+  // Fetch regions on component mount
   useEffect(() => {
-    const fetchData = async () => {
+    const fetchRegions = async () => {
       setRegionsLoading(true);
       try {
-        // Fetch regions
         const regionsResponse = await fetch("/api/regions");
         if (regionsResponse.ok) {
           const regionsData = await regionsResponse.json();
           setRegions(regionsData.data || []);
-
-          // Fetch all cities from all regions for direct search
-          const allRegions = regionsData.data || [];
-          const allCitiesData: RegionCity[] = [];
-
-          for (const region of allRegions) {
-            try {
-              const citiesResponse = await fetch(
-                `/api/regions/${region.id}/cities`,
-              );
-              if (citiesResponse.ok) {
-                const citiesData = await citiesResponse.json();
-                allCitiesData.push(...(citiesData.data || []));
-              }
-            } catch (error) {
-              console.error(
-                `Error fetching cities for region ${region.id}:`,
-                error,
-              );
-            }
-          }
-
-          setAllCities(allCitiesData);
         } else {
           console.error("Failed to fetch regions:", regionsResponse.status);
           setRegions([]);
         }
       } catch (error) {
-        console.error("Error fetching data:", error);
+        console.error("Error fetching regions:", error);
         setRegions([]);
       } finally {
         setRegionsLoading(false);
       }
     };
 
-    fetchData();
+    fetchRegions();
   }, []);
 
+  // Search cities on the server as the user types
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults([]);
+      setSearching(false);
+      return;
+    }
+
+    let cancelled = false;
+    setSearching(true);
+    const searchCities = async () => {
+      try {
+        const params = new URLSearchParams({
+          q: query,
+          lang: language,
+          limit: SEARCH_LIMIT.toString(),
+        });
+        const response = await fetch(`/api/cities/search?${params}`);
+        if (cancelled) return;
+
+        if (response.ok) {
+          const data: CitySearchResponse = await response.json();
+          if (!cancelled) setSearchResults(data.data);
+        } else {
+          console.error("Failed to search cities:", response.status);
+          if (!cancelled) setSearchResults([]);
+        }
+      } catch (error) {
+        console.error("Error searching cities:", error);
+        if (!cancelled) setSearchResults([]);
+      } finally {
+        if (!cancelled) setSearching(false);
+      }
+    };
+
+    const timeoutId = setTimeout(searchCities, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeoutId);
+    };
+  }, [searchQuery, language]);
+
   // Fetch cities when region is selected
   useEffect(() => {
     if (!selectedRegion) {
@@ -153,56 +182,13 @@ export function RegionCityCombobox({
     return city.names[language as keyof typeof city.names] || city.names.en;
   };
 
-  // Multi-language search function with text normalization
-  const searchCities = (query: string): RegionCity[] => {
-    if (!query.trim()) return [];
-
-    const searchTerm = query.toLowerCase().trim();
-
-    return allCities.filter((city) => {
-      // Get all language variants and normalize them
-      const uzName = (city.names.uz?.toLowerCase() || "").replace(
-        /[^a-zA-Zа-яё\s]/g,
-        "",
-      );
-      const ruName = (city.names.ru?.toLowerCase() || "").replace(
-        /[^a-zA-Zа-яё\s]/g,
-        "",
-      );
-      const enName = (city.names.en?.toLowerCase() || "").replace(
-        /[^a-zA-Zа-яё\s]/g,
-        "",
-      );
-
-      // Also create versions without common suffixes/prefixes
-      const uzCore = uzName.replace(/(shahri|tumani|viloyati)/g, "").trim();
-      const ruCore = ruName
-        .replace(/(город|район|область|области)/g, "")
-        .trim();
-      const enCore = enName.replace(/(city|district|region)/g, "").trim();
-
-      // Search in original names and core names
-      return (
-        uzName.includes(searchTerm) ||
-        ruName.includes(searchTerm) ||
-        enName.includes(searchTerm) ||
-        uzCore.includes(searchTerm) ||
-        ruCore.includes(searchTerm) ||
-        enCore.includes(searchTerm) ||
-        // Also search by words (for partial matches)
-        uzName.split(" ").some((word) => word.startsWith(searchTerm)) ||
-        ruName.split(" ").some((word) => word.startsWith(searchTerm)) ||
-        enName.split(" ").some((word) => word.startsWith(searchTerm))
-      );
-    });
-  };
-
   // Auto-select region when city is found
-  const handleDirectCitySelect = (city: RegionCity) => {
-    const region = regions.find((r) => r.id === city.region_id);
-    if (region) {
-      setSelectedRegion(region);
-    }
+  const handleDirectCitySelect = ({
+    region,
+    match,
+    ...city
+  }: CitySearchResult) => {
+    setSelectedRegion(region);
     onValueChange(city);
     setOpen(false);
     setSearchQuery("");
@@ -246,7 +232,8 @@ export function RegionCityCombobox({
         avoidCollisions={false}
         collisionPadding={0}
       >
-        <Command>
+        {/* Search results are already filtered and ranked by the server */}
+        <Command shouldFilter={false}>
           <CommandInput
             placeholder={t.citySearch}
             value={searchQuery}
@@ -254,7 +241,9 @@ export function RegionCityCombobox({
           />
           <CommandList>
             <CommandEmpty>
-              {regionsLoading || loading ? t.loading : t.cityNotFound}
+              {regionsLoading || loading || searching
+                ? t.loading
+                : t.cityNotFound}
             </CommandEmpty>
 
             {/* Clear selection option */}
@@ -273,25 +262,21 @@ export function RegionCityCombobox({
             {/* Direct city search results */}
             {searchQuery.trim() &&
               (() => {
-                const foundCities = searchCities(searchQuery);
-                if (foundCities.length > 0) {
+                if (searchResults.length > 0) {
                   return (
                     <CommandGroup heading={t.foundCities || "Found Cities"}>
-                      {foundCities.slice(0, 10).map((city) => {
-                        const region = regions.find(
-                          (r) => r.id === city.region_id,
-                        );
+                      {searchResults.map((city) => {
                         return (
                           <CommandItem
                             key={city.shipox_id}
-                            value={`${getCityName(city)} ${getRegionName(region!)}`}
+                            value={`${getCityName(city)} ${getRegionName(city.region)}`}
                             onSelect={() => handleDirectCitySelect(city)}
                           >
                             <MapPin className="mr-2 h-4 w-4" />
                             <div className="flex flex-col">
                               <span>{getCityName(city)}</span>
                               <span className="text-xs text-muted-foreground">
-                                {region ? getRegionName(region) : ""}
+                                {getRegionName(city.region)}
                               </span>
                             </div>
                             <Check
@@ -1,308 +1,17 @@
 import React from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { useI18n } from "@/hooks/useI18n";
-
-// Rates table data
-const ratesData = [
-  {
-    weight: 1,
-    zone0: 20000,
-    zone1: 25000,
-    zone2: 30000,
-    zone3: 35000,
-    customer: 35000,
-    tashkent: 15000,
-    locker: 20000,
-  },
-  {
-    weight: 2,
-    zone0: 25000,
-    zone1: 30000,
-    zone2: 35000,
-    zone3: 40000,
-    customer: 40000,
-    tashkent: 20000,
-    locker: null,
-  },
-  {
-    weight: 3,
-    zone0: 30000,
-    zone1: 35000,
-    zone2: 40000,
-    zone3: 45000,
-    customer: 45000,
-    tashkent: 25000,
-    locker: null,
-  },
-  {
-    weight: 4,
-    zone0: 35000,
-    zone1: 40000,
-    zone2: 45000,
-    zone3: 50000,
-    customer: 50000,
-    tashkent: 30000,
-    locker: null,
-  },
-  {
-    weight: 5,
-    zone0: 40000,
-    zone1: 45000,
-    zone2: 50000,
-    zone3: 55000,
-    customer: 55000,
-    tashkent: 35000,
-    locker: null,
-  },
-  {
-    weight: 6,
-    zone0: 45000,
-    zone1: 50000,
-    zone2: 55000,
-    zone3: 60000,
-    customer: 60000,
-    tashkent: 40000,
-    locker: null,
-  },
-  {
-    weight: 7,
-    zone0: 50000,
-    zone1: 55000,
-    zone2: 60000,
-    zone3: 65000,
-    customer: 65000,
-    tashkent: 45000,
-    locker: null,
-  },
-  {
-    weight: 8,
-    zone0: 55000,
-    zone1: 60000,
-    zone2: 65000,
-    zone3: 70000,
-    customer: 70000,
-    tashkent: 50000,
-    locker: null,
-  },
-  {
-    weight: 9,
-    zone0: 60000,
-    zone1: 65000,
-    zone2: 70000,
-    zone3: 75000,
-    customer: 75000,
-    tashkent: 55000,
-    locker: null,
-  },
-  {
-    weight: 10,
-    zone0: 65000,
-    zone1: 70000,
-    zone2: 75000,
-    zone3: 80000,
-    customer: 80000,
-    tashkent: 60000,
-    locker: null,
-  },
-  {
-    weight: 11,
-    zone0: 70000,
-    zone1: 75000,
-    zone2: 80000,
-    zone3: 85000,
-    customer: 85000,
-    tashkent: 65000,
-    locker: null,
-  },
-  {
-    weight: 12,
-    zone0: 75000,
-    zone1: 80000,
-    zone2: 85000,
-    zone3: 90000,
-    customer: 90000,
-    tashkent: 70000,
-    locker: null,
-  },
-  {
-    weight: 13,
-    zone0: 80000,
-    zone1: 85000,
-    zone2: 90000,
-    zone3: 95000,
-    customer: 95000,
-    tashkent: 75000,
-    locker: null,
-  },
-  {
-    weight: 14,
-    zone0: 85000,
-    zone1: 90000,
-    zone2: 95000,
-    zone3: 100000,
-    customer: 100000,
-    tashkent: 80000,
-    locker: null,
-  },
-  {
-    weight: 15,
-    zone0: 90000,
-    zone1: 95000,
-    zone2: 100000,
-    zone3: 105000,
-    customer: 105000,
-    tashkent: 85000,
-    locker: null,
-  },
-  {
-    weight: 16,
-    zone0: 95000,
-    zone1: 100000,
-    zone2: 105000,
-    zone3: 110000,
-    customer: 110000,
-    tashkent: 90000,
-    locker: null,
-  },
-  {
-    weight: 17,
-    zone0: 100000,
-    zone1: 105000,
-    zone2: 110000,
-    zone3: 115000,
-    customer: 115000,
-    tashkent: 95000,
-    locker: null,
-  },
-  {
-    weight: 18,
-    zone0: 105000,
-    zone1: 110000,
-    zone2: 115000,
-    zone3: 120000,
-    customer: 120000,
-    tashkent: 100000,
-    locker: null,
-  },
-  {
-    weight: 19,
-    zone0: 110000,
-    zone1: 115000,
-    zone2: 120000,
-    zone3: 125000,
-    customer: 125000,
-    tashkent: 105000,
-    locker: null,
-  },
-  {
-    weight: 20,
-    zone0: 115000,
-    zone1: 120000,
-    zone2: 125000,
-    zone3: 130000,
-    customer: 130000,
-    tashkent: 110000,
-    locker: null,
-  },
-];
-
-// Cities for zone table
-const cities = [
-  "Ташкент",
-  "Чирчик",
-  "Ангрен",
-  "Гулистан",
-  "Джизак",
-  "Самарканд",
-  "Каттакурган",
-  "Фергана",
-  "Коканд",
-  "Наманган",
-  "Андижан",
-  "Карши",
-  "Шахрисабз",
-  "Термез",
-  "Денау",
-  "Бухара",
-  "Гиждуван",
-  "Навои",
-  "Зарафшан",
-  "Ургенч",
-  "Нукус",
-];
-
-const citiesUz = [
-  "Toshkent",
-  "Chirchiq",
-  "Angren",
-  "Guliston",
-  "Jizzax",
-  "Samarqand",
-  "Kattaqo'rg'on",
-  "Farg'ona",
-  "Qo'qon",
-  "Namangan",
-  "Andijon",
-  "Qarshi",
-  "Shahrisabz",
-  "Termiz",
-  "Denov",
-  "Buxoro",
-  "G'ijduvon",
-  "Navoiy",
-  "Zarafshon",
-  "Urganch",
-  "Nukus",
-];
-
-const citiesEn = [
-  "Tashkent",
-  "Chirchiq",
-  "Angren",
-  "Gulistan",
-  "Jizzak",
-  "Samarkand",
-  "Kattakurgan",
-  "Fergana",
-  "Kokand",
-  "Namangan",
-  "Andijan",
-  "Karshi",
-  "Shahrisabz",
-  "Termez",
-  "Denau",
-  "Bukhara",
-  "Gijduvan",
-  "Navoi",
-  "Zarafshan",
-  "Urgench",
-  "Nukus",
-];
-
-// Zone matrix data
-const zoneMatrix = [
-  [0, 1, 1, 2, 2, 2, 2, 2, 2, 2, 2, 2, 3, 3, 3, 2, 2, 2, 3, 3, 3],
-  [1, 0, 2, 2, 2, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3],
-  [1, 2, 0, 3, 3, 3, 3, 2, 2, 2, 2, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3],
-  [2, 2, 3, 0, 2, 2, 2, 3, 3, 3, 3, 3, 3, 3, 3, 2, 2, 3, 3, 3, 3],
-  [2, 2, 3, 2, 0, 2, 2, 3, 3, 3, 3, 3, 3, 3, 3, 2, 2, 2, 3, 3, 3],
-  [2, 3, 3, 2, 2, 0, 1, 3, 3, 3, 3, 2, 3, 3, 3, 2, 2, 2, 3, 3, 3],
-  [2, 3, 3, 2, 2, 1, 0, 3, 3, 3, 3, 3, 3, 3, 3, 2, 2, 2, 3, 3, 3],
-  [2, 3, 2, 3, 3, 3, 3, 0, 1, 1, 1, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3],
-  [2, 3, 2, 3, 3, 3, 3, 1, 0, 1, 1, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3],
-  [2, 3, 2, 3, 3, 3, 3, 1, 1, 0, 1, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3],
-  [2, 3, 2, 3, 3, 3, 3, 1, 1, 1, 0, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3],
-  [2, 3, 3, 3, 3, 2, 3, 3, 3, 3, 3, 0, 2, 2, 3, 3, 3, 3, 3, 3, 3],
-  [3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 2, 0, 3, 3, 3, 3, 3, 3, 3, 3],
-  [3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 2, 3, 0, 2, 3, 3, 3, 3, 3, 3],
-  [3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 2, 0, 3, 3, 3, 3, 3, 3],
-  [2, 3, 3, 2, 2, 2, 2, 3, 3, 3, 3, 3, 3, 3, 3, 0, 1, 2, 3, 3, 3],
-  [2, 3, 3, 2, 2, 2, 2, 3, 3, 3, 3, 3, 3, 3, 3, 1, 0, 2, 3, 3, 3],
-  [2, 3, 3, 3, 2, 2, 2, 3, 3, 3, 3, 3, 3, 3, 3, 2, 2, 0, 2, 3, 3],
-  [3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 2, 0, 3, 3],
-  [3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 0, 2],
-  [3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 2, 0],
-];
+import {
+  MAX_LOCKER_WEIGHT_KG,
+  RATE_CARD,
+  ZONE_HUBS,
+  ZONE_MATRIX,
+} from "@shared/pricing";
+
+// Zone table city names, in ZONE_MATRIX order
+const cities = ZONE_HUBS.map((hub) => hub.names.ru);
+const citiesUz = ZONE_HUBS.map((hub) => hub.names.uz);
+const citiesEn = ZONE_HUBS.map((hub) => hub.names.en);
 
 function formatPrice(price: number | null): string {
   if (price === null) return "-";
@@ -720,7 +429,7 @@ export function TariffTables() {
                 </tr>
               </thead>
               <tbody>
-                {ratesData.map((row, index) => (
+                {RATE_CARD.map((row, index) => (
                   <tr
                     key={row.weight}
                     className={index % 2 === 0 ? "bg-white" : "bg-gray-50"}
@@ -749,12 +458,12 @@ export function TariffTables() {
                     {/* Locker column with merged cell for 1-10 kg */}
                     {row.weight === 1 ? (
                       <td
-                        rowSpan={10}
+                        rowSpan={MAX_LOCKER_WEIGHT_KG}
                         className="border border-gray-300 px-1 py-2 text-center align-middle font-medium text-xs lg:text-sm"
                       >
-                        20,000
+                        {formatPrice(row.locker)}
                       </td>
-                    ) : row.weight <= 10 ? null : (
+                    ) : row.weight <= MAX_LOCKER_WEIGHT_KG ? null : (
                       <td className="border border-gray-300 px-1 py-2 text-center text-xs lg:text-sm">
                         -
                       </td>
@@ -793,7 +502,7 @@ export function TariffTables() {
                 </tr>
               </thead>
               <tbody>
-                {zoneMatrix.map((row, rowIndex) => (
+                {ZONE_MATRIX.map((row, rowIndex) => (
                   <tr key={rowIndex}>
                     <td className="border border-gray-300 px-1 lg:px-2 py-2 text-center font-medium bg-white text-xs lg:text-sm sticky left-0 z-10 min-w-[80px] lg:min-w-[100px]">
                       {cityNames[rowIndex]}
@@ -47,6 +47,7 @@ export interface Translations {
   noTariffsFound: string;
   tryChangeParams: string;
   calculationError: string;
+  shipmentRejected: string;
 
   // Navigation
   calculator: string;
@@ -94,10 +95,68 @@ export interface Translations {
   city: string;
   findNearest: string;
   foundCities: string;
-  backToRegions: string;
-  selectRegion: string;
-  citySearch: string;
   swapCities: string;
+
+  // Parcel dimensions
+  dimensions: string;
+  length: string;
+  width: string;
+  height: string;
+  dimensionsHint: string;
+  correctDimensions: string;
+  chargeableWeight: string;
+  volumetricWeight: string;
+  kg: string;
+
+  // Tariff comparison
+  compareAll: string;
+  comparisonTitle: string;
+  comparisonDescription: string;
+  cheapest: string;
+  fastest: string;
+  deliveryTimeLabel: string;
+  unavailableTariffs: string;
+  reasonNoOriginOffice: string;
+  reasonNoDestinationOffice: string;
+  reasonNoDestinationLocker: string;
+  quoteFailed: string;
+
+  // Rate card estimates
+  estimate: string;
+  estimateHint: string;
+
+  // Price breakdown
+  additionalServices: string;
+  codAmount: string;
+  declaredValue: string;
+  deliveryCost: string;
+  codFee: string;
+  declaredValueFee: string;
+  vat: string;
+  total: string;
+
+  // Printing and exporting quotes
+  priceItem: string;
+  priceNet: string;
+  priceGross: string;
+  printQuote: string;
+  exportQuote: string;
+
+  // Rate limiting
+  tooManyRequests: string;
+
+  // Nearest points
+  nearMe: string;
+  nearMeLocating: string;
+  nearMeUnsupported: string;
+  nearMeDenied: string;
+  nearMeFailed: string;
+  nearMeResults: string;
+  showAllPoints: string;
+  distanceKm: string;
+
+  // Tariff availability
+  availabilityUnknown: string;
 }
 
 const translations: Record<Language, Translations> = {
@@ -144,15 +203,13 @@ const translations: Record<Language, Translations> = {
     noTariffsFound: "Тарифы не найдены",
     tryChangeParams: "Попробуйте изменить параметры поиска",
     calculationError: "Произошла ошибка при расчете тарифов",
+    shipmentRejected: "Служба доставки отклонила отправление: {details}",
 
     calculator: "Калькулятор",
     warehouses: "Пункты выдачи Fargo",
 
-    citySearch: "Поиск города...",
     loading: "Загрузка...",
     cityNotFound: "Город не найден.",
-    selectRegion: "Выберите область",
-    backToRegions: "Назад к областям",
 
     tableRates: "Таблица - Тарифы",
     tableZone: "Таблица - Зоны",
@@ -192,6 +249,64 @@ const translations: Record<Language, Translations> = {
     selectRegion: "Выберите область",
     citySearch: "Поиск города или области",
     swapCities: "Поменять местами",
+
+    dimensions: "Габариты (см), необязательно",
+    length: "Длина",
+    width: "Ширина",
+    height: "Высота",
+    dimensionsHint:
+      "Стоимость считается по большему из фактического и объёмного веса (Д × Ш × В / 6000)",
+    correctDimensions: "Укажите длину, ширину и высоту от 1 до 300 см",
+    chargeableWeight: "Расчётный вес",
+    volumetricWeight: "Объёмный вес",
+    kg: "кг",
+
+    compareAll: "Сравнить все тарифы",
+    comparisonTitle: "Сравнение тарифов",
+    comparisonDescription:
+      "Все доступные способы доставки между выбранными городами",
+    cheapest: "Дешевле всего",
+    fastest: "Быстрее всего",
+    deliveryTimeLabel: "Срок доставки",
+    unavailableTariffs: "Недоступно",
+    reasonNoOriginOffice: "нет офиса в городе отправки",
+    reasonNoDestinationOffice: "нет офиса в городе доставки",
+    reasonNoDestinationLocker: "нет постамата в городе доставки",
+    quoteFailed: "не удалось рассчитать",
+
+    estimate: "Оценка",
+    estimateHint:
+      "Сервис FARGO недоступен, стоимость рассчитана по тарифной сетке и может отличаться",
+
+    additionalServices: "Дополнительные услуги, необязательно",
+    codAmount: "Сумма наложенного платежа (сум)",
+    declaredValue: "Объявленная ценность (сум)",
+    deliveryCost: "Доставка",
+    codFee: "Комиссия за наложенный платёж (3%)",
+    declaredValueFee: "Сбор за объявленную ценность (1%)",
+    vat: "НДС {rate}%",
+    total: "Итого",
+
+    priceItem: "Статья",
+    priceNet: "Без НДС",
+    priceGross: "С НДС",
+    printQuote: "Печать",
+    exportQuote: "Экспорт CSV",
+
+    tooManyRequests: "Слишком много запросов, повторите через {seconds} с",
+
+    nearMe: "Рядом со мной",
+    nearMeLocating: "Определяем ваше местоположение…",
+    nearMeUnsupported: "Браузер не поддерживает геолокацию",
+    nearMeDenied:
+      "Разрешите доступ к местоположению, чтобы найти ближайшие пункты",
+    nearMeFailed: "Не удалось найти ближайшие пункты",
+    nearMeResults: "Ближайшие к вам пункты",
+    showAllPoints: "Все пункты",
+    distanceKm: "{distance} км",
+
+    availabilityUnknown:
+      "Невозможно проверить доступность услуг в выбранных городах. Попробуйте выбрать другие города.",
   },
 
   en: {
@@ -237,15 +352,13 @@ const translations: Record<Language, Translations> = {
     noTariffsFound: "No tariffs found",
     tryChangeParams: "Try changing search parameters",
     calculationError: "An error occurred while calculating tariff",
+    shipmentRejected: "The carrier rejected the shipment: {details}",
 
     calculator: "Calculator",
     warehouses: "Fargo pickup points",
 
-    citySearch: "Search city...",
     loading: "Loading...",
     cityNotFound: "City not found.",
-    selectRegion: "Select region",
-    backToRegions: "Back to regions",
 
     tableRates: "Table - Rates",
     tableZone: "Table - Zone",
@@ -285,6 +398,63 @@ const translations: Record<Language, Translations> = {
     selectRegion: "Select Region",
     citySearch: "Search city or region",
     swapCities: "Swap cities",
+
+    dimensions: "Dimensions (cm), optional",
+    length: "Length",
+    width: "Width",
+    height: "Height",
+    dimensionsHint:
+      "Price is based on the greater of actual and volumetric weight (L × W × H / 6000)",
+    correctDimensions: "Enter length, width and height between 1 and 300 cm",
+    chargeableWeight: "Chargeable weight",
+    volumetricWeight: "Volumetric weight",
+    kg: "kg",
+
+    compareAll: "Compare all tariffs",
+    comparisonTitle: "Tariff comparison",
+    comparisonDescription:
+      "All delivery options available between the selected cities",
+    cheapest: "Cheapest",
+    fastest: "Fastest",
+    deliveryTimeLabel: "Delivery time",
+    unavailableTariffs: "Unavailable",
+    reasonNoOriginOffice: "no office in the origin city",
+    reasonNoDestinationOffice: "no office in the destination city",
+    reasonNoDestinationLocker: "no locker in the destination city",
+    quoteFailed: "could not be calculated",
+
+    estimate: "Estimate",
+    estimateHint:
+      "The FARGO service is unavailable; the price is estimated from the rate card and may differ",
+
+    additionalServices: "Additional services, optional",
+    codAmount: "Cash on delivery amount (UZS)",
+    declaredValue: "Declared value (UZS)",
+    deliveryCost: "Delivery",
+    codFee: "COD commission (3%)",
+    declaredValueFee: "Declared value surcharge (1%)",
+    vat: "VAT {rate}%",
+    total: "Total",
+
+    priceItem: "Item",
+    priceNet: "Net",
+    priceGross: "Gross",
+    printQuote: "Print",
+    exportQuote: "Export CSV",
+
+    tooManyRequests: "Too many requests, try again in {seconds} s",
+
+    nearMe: "Near me",
+    nearMeLocating: "Finding your location…",
+    nearMeUnsupported: "Your browser does not support geolocation",
+    nearMeDenied: "Allow location access to find the nearest points",
+    nearMeFailed: "Could not find the nearest points",
+    nearMeResults: "Points closest to you",
+    showAllPoints: "All points",
+    distanceKm: "{distance} km",
+
+    availabilityUnknown:
+      "Could not check which services are available in the selected cities. Try choosing other cities.",
   },
 
   uz: {
@@ -332,15 +502,13 @@ const translations: Record<Language, Translations> = {
     noTariffsFound: "Tariflar topilmadi",
     tryChangeParams: "Qidiruv parametrlarini o'zgartirib ko'ring",
     calculationError: "Tarif hisoblashda xatolik yuz berdi",
+    shipmentRejected: "Yetkazib berish xizmati joʻnatmani rad etdi: {details}",
 
     calculator: "Kalkulyator",
     warehouses: "Fargo yetkazib berish punktlari",
 
-    citySearch: "Shahar qidirish...",
     loading: "Yuklanmoqda...",
     cityNotFound: "Shahar topilmadi.",
-    selectRegion: "Viloyatni tanlang",
-    backToRegions: "Viloyatlarga qaytish",
 
     tableRates: "Jadval - Tariflar",
     tableZone: "Jadval - Zonalar",
@@ -381,6 +549,65 @@ const translations: Record<Language, Translations> = {
     selectRegion: "Viloyatni tanlang",
     citySearch: "Shahar yoki viloyat qidirish",
     swapCities: "Shaharlarni almashtirish",
+
+    dimensions: "O'lchamlari (sm), ixtiyoriy",
+    length: "Uzunligi",
+    width: "Kengligi",
+    height: "Balandligi",
+    dimensionsHint:
+      "Narx haqiqiy va hajmiy og'irlikdan kattasi bo'yicha hisoblanadi (U × K × B / 6000)",
+    correctDimensions:
+      "Uzunlik, kenglik va balandlikni 1 dan 300 sm gacha kiriting",
+    chargeableWeight: "Hisoblangan og'irlik",
+    volumetricWeight: "Hajmiy og'irlik",
+    kg: "kg",
+
+    compareAll: "Barcha tariflarni solishtirish",
+    comparisonTitle: "Tariflarni solishtirish",
+    comparisonDescription:
+      "Tanlangan shaharlar orasidagi barcha yetkazib berish usullari",
+    cheapest: "Eng arzon",
+    fastest: "Eng tez",
+    deliveryTimeLabel: "Yetkazib berish muddati",
+    unavailableTariffs: "Mavjud emas",
+    reasonNoOriginOffice: "jo'natish shahrida ofis yo'q",
+    reasonNoDestinationOffice: "yetkazish shahrida ofis yo'q",
+    reasonNoDestinationLocker: "yetkazish shahrida postamat yo'q",
+    quoteFailed: "hisoblab bo'lmadi",
+
+    estimate: "Taxminiy",
+    estimateHint:
+      "FARGO xizmati mavjud emas, narx tariflar jadvali bo'yicha taxminan hisoblandi va farq qilishi mumkin",
+
+    additionalServices: "Qo'shimcha xizmatlar, ixtiyoriy",
+    codAmount: "Naqd to'lov summasi (so'm)",
+    declaredValue: "E'lon qilingan qiymat (so'm)",
+    deliveryCost: "Yetkazib berish",
+    codFee: "Naqd to'lov komissiyasi (3%)",
+    declaredValueFee: "E'lon qilingan qiymat uchun to'lov (1%)",
+    vat: "QQS {rate}%",
+    total: "Jami",
+
+    priceItem: "Modda",
+    priceNet: "QQSsiz",
+    priceGross: "QQS bilan",
+    printQuote: "Chop etish",
+    exportQuote: "CSV eksport",
+
+    tooManyRequests:
+      "So'rovlar juda ko'p, {seconds} soniyadan keyin qayta urinib ko'ring",
+
+    nearMe: "Yaqinimda",
+    nearMeLocating: "Joylashuvingiz aniqlanmoqda…",
+    nearMeUnsupported: "Brauzeringiz geolokatsiyani qo'llab-quvvatlamaydi",
+    nearMeDenied: "Eng yaqin punktlarni topish uchun joylashuvga ruxsat bering",
+    nearMeFailed: "Eng yaqin punktlarni topib bo'lmadi",
+    nearMeResults: "Sizga eng yaqin punktlar",
+    showAllPoints: "Barcha punktlar",
+    distanceKm: "{distance} km",
+
+    availabilityUnknown:
+      "Tanlangan shaharlarda xizmatlar mavjudligini tekshirib bo'lmadi. Boshqa shaharlarni tanlab ko'ring.",
   },
 };
 
@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import type { ZodIssue } from "zod";
 import {
   RegionBasedTariffCalculatorForm,
   TariffCalculationResponse,
@@ -6,9 +7,18 @@ import {
   RegionCity,
   City,
   CitiesResponse,
+  ValidationErrorResponse,
+  ErrorResponse,
+  AllTariffsResponse,
+  AvailabilityResponse,
+  TariffExclusionReason,
+  TariffUnavailableResponse,
+  allTariffsInputSchema,
+  tariffCalculationInputSchema,
+  weightSchema,
 } from "@shared/api";
 import { useI18n } from "./useI18n";
-import { useWarehouseCheck } from "./useWarehouseCheck";
+import { describeUnavailableTariff } from "@/lib/availability";
 
 export function useRegionBasedTariffCalculator() {
   const { t, language, formatMessage } = useI18n();
@@ -17,8 +27,14 @@ export function useRegionBasedTariffCalculator() {
     destinationCity: null,
     tariffType: null,
     weight: "",
+    length: "",
+    width: "",
+    height: "",
+    codAmount: "",
+    declaredValue: "",
   });
   const [result, setResult] = useState<TariffCalculationResponse | null>(null);
+  const [comparison, setComparison] = useState<AllTariffsResponse | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [apiCities, setApiCities] = useState<City[]>([]);
@@ -59,246 +75,86 @@ export function useRegionBasedTariffCalculator() {
     ? findApiCityByShipoxId(form.destinationCity)
     : null;
 
-const warehouseData = useWarehouseCheck();
+  // Ask the server which tariff types can serve the selected cities
+  const [availability, setAvailability] = useState<AvailabilityResponse | null>(
+    null,
+  );
+  const [availabilityFailed, setAvailabilityFailed] = useState(false);
+  const originId = form.originCity?.shipox_id;
+  const destinationId = form.destinationCity?.shipox_id;
 
-  // Create warning based on warehouse check - only show when tariff type is selected and requires validation
-  const createWarehouseWarning = () => {
-    console.log("🚨 CREATE_WAREHOUSE_WARNING called");
-    console.log("  Form state:", {
-      originCity: form.originCity?.names,
-      destinationCity: form.destinationCity?.names,
-      tariffType: form.tariffType,
-      warehouseDataLoaded: !!warehouseData,
+  useEffect(() => {
+    setAvailability(null);
+    setAvailabilityFailed(false);
+    if (!originId || !destinationId) return;
+
+    let cancelled = false;
+    const params = new URLSearchParams({
+      origin: originId.toString(),
+      destination: destinationId.toString(),
     });
+    fetch(`/api/availability?${params}`)
+      .then(async (response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const data: AvailabilityResponse = await response.json();
+        if (!cancelled) setAvailability(data);
+      })
+      .catch((error) => {
+        console.error("Error checking availability:", error);
+        if (!cancelled) setAvailabilityFailed(true);
+      });
 
-    // Only show warnings when all required fields are selected AND tariff type requires office/warehouse validation
-    if (
-      !form.originCity ||
-      !form.destinationCity ||
-      !form.tariffType ||
-      !warehouseData
-    ) {
-      console.log("🚨 EARLY RETURN - missing data");
-      return {
-        show: false,
-        type: "info" as const,
-        message: "",
-      };
+    return () => {
+      cancelled = true;
+    };
+  }, [originId, destinationId]);
+
+  const tariffAvailability =
+    availability?.data.find((entry) => entry.tariff_type === form.tariffType) ??
+    null;
+
+  // Use city names from selected RegionCity according to current language
+  const getDisplayName = (regionCity: RegionCity) => {
+    return regionCity.names[language] || regionCity.names.en;
+  };
+
+  const describeUnavailable = (reason: TariffExclusionReason) =>
+    describeUnavailableTariff(
+      reason,
+      {
+        origin: getDisplayName(form.originCity),
+        destination: getDisplayName(form.destinationCity),
+      },
+      t,
+    );
+
+  // Warn when the selected tariff type cannot serve the selected cities
+  const createWarehouseWarning = () => {
+    const hidden = { show: false, type: "info" as const, message: "" };
+    if (!form.originCity || !form.destinationCity || !form.tariffType) {
+      return hidden;
     }
 
-    // Only check for office-related tariff types that require warehouses
-    const requiresWarehouseCheck =
-      form.tariffType.includes("OFFICE") ||
-      form.tariffType.includes("POSTAMAT");
-    if (!requiresWarehouseCheck) {
+    if (availabilityFailed) {
       return {
-        show: false,
-        type: "info" as const,
-        message: "",
+        show: true,
+        type: "warning" as const,
+        message: t.availabilityUnknown,
       };
     }
 
-    // CRITICAL: Only use API cities for warehouse checking - no fallbacks
-    if (!convertedOriginCity || !convertedDestinationCity) {
-      console.log(
-        "🚨 EARLY RETURN - API cities not found, cannot check warehouses",
-      );
-      console.log("  convertedOriginCity:", convertedOriginCity);
-      console.log("  convertedDestinationCity:", convertedDestinationCity);
-      console.log("  Available API cities count:", apiCities.length);
-      console.log("  Origin shipox_id:", form.originCity.shipox_id);
-      console.log("  Destination shipox_id:", form.destinationCity.shipox_id);
-
-      // If we can't find the API cities, we cannot proceed with warehouse checks
-      // This means the selected RegionCity doesn't have a corresponding API city
+    if (tariffAvailability && !tariffAvailability.available) {
       return {
         show: true,
         type: "warning" as const,
-        message:
-          "Невозможно проверить доступность услуг в выбранных городах. Попробуйте выбрать другие города.",
+        message: describeUnavailable(tariffAvailability.reason),
       };
     }
 
-    // Use EXACT API city names for warehouse checking
-    const originCityName = convertedOriginCity.name;
-    const destinationCityName = convertedDestinationCity.name;
-
-    console.log(
-      "🔄 TARIFF CALCULATOR: Checking warehouses with API city names:",
-    );
-    console.log("  Origin RegionCity:", form.originCity.names);
-    console.log("  Origin API City ID:", convertedOriginCity.id);
-    console.log("  Origin API City Name:", originCityName);
-    console.log("  Destination RegionCity:", form.destinationCity.names);
-    console.log("  Destination API City ID:", convertedDestinationCity.id);
-    console.log("  Destination API City Name:", destinationCityName);
-    console.log("  Tariff Type:", form.tariffType);
-
-    const hasOriginWarehouse = warehouseData.hasWarehouse(originCityName);
-    const hasDestinationWarehouse =
-      warehouseData.hasWarehouse(destinationCityName);
-    const hasOriginLocker = warehouseData.hasLocker(originCityName);
-    const hasDestinationLocker = warehouseData.hasLocker(destinationCityName);
-
-    const hasOriginServices = hasOriginWarehouse || hasOriginLocker;
-    const hasDestinationServices =
-      hasDestinationWarehouse || hasDestinationLocker;
-
-    console.log("🔄 TARIFF CALCULATOR: Results:");
-    console.log("  Origin warehouse:", hasOriginWarehouse);
-    console.log("  Origin locker:", hasOriginLocker);
-    console.log("  Destination warehouse:", hasDestinationWarehouse);
-    console.log("  Destination locker:", hasDestinationLocker);
-    console.log("  Has origin services:", hasOriginServices);
-    console.log("  Has destination services:", hasDestinationServices);
-
-    // Use city names from selected RegionCity according to current language
-    const getDisplayName = (regionCity: RegionCity) => {
-      return regionCity.names[language] || regionCity.names.en;
-    };
-
-    // Check based on tariff type requirements
-    const needsOriginOffice = form.tariffType.startsWith("OFFICE");
-    const needsDestinationOffice = form.tariffType.endsWith("OFFICE");
-    const needsDestinationPostamat = form.tariffType.endsWith("POSTAMAT");
-
-    console.log("🔄 TARIFF CALCULATOR: Tariff requirements:");
-    console.log("  Needs origin office:", needsOriginOffice);
-    console.log("  Needs destination office:", needsDestinationOffice);
-    console.log("  Needs destination postamat:", needsDestinationPostamat);
-
-    // Check specific requirements based on tariff type
-    if (form.tariffType === "OFFICE_OFFICE") {
-      console.log("🚨 CHECKING OFFICE_OFFICE tariff");
-      console.log("  hasOriginWarehouse:", hasOriginWarehouse);
-      console.log("  hasDestinationWarehouse:", hasDestinationWarehouse);
-
-      if (!hasOriginWarehouse && !hasDestinationWarehouse) {
-        return {
-          show: true,
-          type: "warning" as const,
-          message: formatMessage(
-            t.noWarehouses ||
-              "В городах {origin} и {destination} нет офисов FARGO",
-            {
-              origin: getDisplayName(form.originCity),
-              destination: getDisplayName(form.destinationCity),
-            },
-          ),
-        };
-      } else if (!hasOriginWarehouse) {
-        return {
-          show: true,
-          type: "warning" as const,
-          message: formatMessage(
-            t.noOriginWarehouse || "В городе {city} нет офиса FARGO",
-            {
-              city: getDisplayName(form.originCity),
-            },
-          ),
-        };
-      } else if (!hasDestinationWarehouse) {
-        return {
-          show: true,
-          type: "warning" as const,
-          message: formatMessage(
-            t.noDestinationWarehouse || "В городе {city} нет офиса FARGO",
-            {
-              city: getDisplayName(form.destinationCity),
-            },
-          ),
-        };
-      }
-    } else if (form.tariffType === "OFFICE_DOOR") {
-      if (!hasOriginWarehouse) {
-        return {
-          show: true,
-          type: "warning" as const,
-          message: formatMessage(
-            t.noOriginWarehouse || "В городе {city} нет офиса FARGO",
-            {
-              city: getDisplayName(form.originCity),
-            },
-          ),
-        };
-      }
-    } else if (form.tariffType === "DOOR_OFFICE") {
-      if (!hasDestinationWarehouse) {
-        return {
-          show: true,
-          type: "warning" as const,
-          message: formatMessage(
-            t.noDestinationWarehouse || "В городе {city} нет офиса FARGO",
-            {
-              city: getDisplayName(form.destinationCity),
-            },
-          ),
-        };
-      }
-    } else if (form.tariffType === "OFFICE_POSTAMAT") {
-      if (!hasOriginWarehouse && !hasDestinationLocker) {
-        return {
-          show: true,
-          type: "warning" as const,
-          message: formatMessage(
-            t.noOriginWarehouseAndDestinationLocker ||
-              "В городе {originCity} нет офиса FARGO, а в городе {destinationCity} нет постамата",
-            {
-              originCity: getDisplayName(form.originCity),
-              destinationCity: getDisplayName(form.destinationCity),
-            },
-          ),
-        };
-      } else if (!hasOriginWarehouse) {
-        return {
-          show: true,
-          type: "warning" as const,
-          message: formatMessage(
-            t.noOriginWarehouse || "В городе {city} нет офиса FARGO",
-            {
-              city: getDisplayName(form.originCity),
-            },
-          ),
-        };
-      } else if (!hasDestinationLocker) {
-        return {
-          show: true,
-          type: "warning" as const,
-          message: formatMessage(
-            t.noDestinationLocker || "В городе {city} нет постамата",
-            {
-              city: getDisplayName(form.destinationCity),
-            },
-          ),
-        };
-      }
-    } else if (form.tariffType === "DOOR_POSTAMAT") {
-      if (!hasDestinationLocker) {
-        return {
-          show: true,
-          type: "warning" as const,
-          message: formatMessage(
-            t.noDestinationLocker || "В городе {city} нет постамата",
-            {
-              city: getDisplayName(form.destinationCity),
-            },
-          ),
-        };
-      }
-    }
-
-    const result = {
-      show: false,
-      type: "info" as const,
-      message: "",
-    };
-
-    console.log("🚨 WAREHOUSE WARNING FINAL RESULT:", result);
-    return result;
+    return hidden;
   };
 
   const warehouseWarning = createWarehouseWarning();
-  console.log("🚨 WAREHOUSE WARNING OBJECT:", warehouseWarning);
 
   const updateForm = (updates: Partial<RegionBasedTariffCalculatorForm>) => {
     setForm((prev) => ({ ...prev, ...updates }));
@@ -311,23 +167,55 @@ const warehouseData = useWarehouseCheck();
       destinationCity: null,
       tariffType: null,
       weight: "",
+      length: "",
+      width: "",
+      height: "",
+      codAmount: "",
+      declaredValue: "",
     });
     setResult(null);
+    setComparison(null);
     setError(null);
   };
 
   const isFormValid = () => {
-    const weight = parseFloat(form.weight);
+    return form.tariffType && canCompare();
+  };
+
+  // Comparing all tariff types needs everything but the tariff type
+  const canCompare = () => {
     return (
       form.originCity &&
       form.destinationCity &&
-      form.tariffType &&
-      form.weight &&
-      !isNaN(weight) &&
-      weight > 0
+      weightSchema.safeParse(form.weight).success
     );
   };
 
+  // Shipment fields shared by single and all-type calculations
+  const getShipment = () => ({
+    from_latitude: convertedOriginCity?.center_latitude,
+    from_longitude: convertedOriginCity?.center_longitude,
+    to_latitude: convertedDestinationCity?.center_latitude,
+    to_longitude: convertedDestinationCity?.center_longitude,
+    weight: form.weight,
+    // Dimensions are optional; empty inputs are left out
+    length: form.length || undefined,
+    width: form.width || undefined,
+    height: form.height || undefined,
+    cod_amount: form.codAmount || undefined,
+    declared_value: form.declaredValue || undefined,
+  });
+
+  const showValidationIssue = (issue: ZodIssue) => {
+    if (issue.path[0] === "weight") {
+      setError(t.correctWeight);
+    } else if (["length", "width", "height"].includes(String(issue.path[0]))) {
+      setError(t.correctDimensions);
+    } else {
+      setError(issue.message);
+    }
+  };
+
   // Check if we can actually calculate (cities found in API and have coordinates)
   const canCalculate = () => {
     return (
@@ -342,56 +230,21 @@ const warehouseData = useWarehouseCheck();
   };
 
   const isCalculationDisabled = () => {
-    // Block calculation if tariff requires warehouses/lockers but they are not available
-    if (
-      !form.originCity ||
-      !form.destinationCity ||
-      !form.tariffType ||
-      !warehouseData
-    ) {
+    if (!form.originCity || !form.destinationCity || !form.tariffType) {
       return false; // Let other validation handle this
     }
 
-    // Only proceed if we have API cities - strict requirement
-    if (!convertedOriginCity || !convertedDestinationCity) {
-      console.log("🚨 CALCULATION DISABLED - API cities not found");
-      return true; // Disable calculation if we don't have proper API city data
-    }
-
-    // Use EXACT API city names for warehouse checking
-    const originCityName = convertedOriginCity.name;
-    const destinationCityName = convertedDestinationCity.name;
-
-    // Use the proper warehouse checking logic
-    const hasOriginWarehouse = warehouseData.hasWarehouse(originCityName);
-    const hasDestinationWarehouse =
-      warehouseData.hasWarehouse(destinationCityName);
-    const hasOriginLocker = warehouseData.hasLocker(originCityName);
-    const hasDestinationLocker = warehouseData.hasLocker(destinationCityName);
-
-    // Check specific requirements based on tariff type
-    switch (form.tariffType) {
-      case "OFFICE_OFFICE":
-        return !hasOriginWarehouse || !hasDestinationWarehouse;
-
-      case "OFFICE_DOOR":
-        return !hasOriginWarehouse;
-
-      case "DOOR_OFFICE":
-        return !hasDestinationWarehouse;
-
-      case "OFFICE_POSTAMAT":
-        return !hasOriginWarehouse || !hasDestinationLocker;
-
-      case "DOOR_POSTAMAT":
-        return !hasDestinationLocker;
-
-      case "DOOR_DOOR":
-        return false; // Door to door doesn't require warehouses
+    // Blocked only once the server confirms the tariff type cannot serve the
+    // cities; while checking, or when the check fails, the server decides
+    return tariffAvailability?.available === false;
+  };
 
-      default:
-        return false;
-    }
+  const showRateLimited = (response: Response) => {
+    setError(
+      formatMessage(t.tooManyRequests, {
+        seconds: response.headers.get("Retry-After") ?? "60",
+      }),
+    );
   };
 
   const calculateTariff = async () => {
@@ -407,28 +260,24 @@ const warehouseData = useWarehouseCheck();
       return;
     }
 
-    // We already know these exist from canCalculate() check
-    const originApiCity = convertedOriginCity!;
-    const destinationApiCity = convertedDestinationCity!;
-
-    const weight = parseFloat(form.weight);
-    if (isNaN(weight) || weight <= 0) {
-      setError(t.correctWeight);
+    // Validate with the same schema the server uses
+    const parsed = tariffCalculationInputSchema.safeParse({
+      ...getShipment(),
+      tariff_type: form.tariffType,
+      from_city_id: form.originCity.shipox_id,
+      to_city_id: form.destinationCity.shipox_id,
+    });
+    if (!parsed.success) {
+      showValidationIssue(parsed.error.issues[0]);
       return;
     }
 
     setLoading(true);
     setError(null);
+    setComparison(null);
 
     try {
-      console.log("Calculating tariff with coordinates:", {
-        from_latitude: originApiCity.center_latitude,
-        from_longitude: originApiCity.center_longitude,
-        to_latitude: destinationApiCity.center_latitude,
-        to_longitude: destinationApiCity.center_longitude,
-        weight: weight,
-        tariff_type: form.tariffType,
-      });
+      console.log("Calculating tariff with coordinates:", parsed.data);
 
       // Use the new API endpoint that expects coordinates
       const response = await fetch("/api/calculate-tariff", {
@@ -436,16 +285,36 @@ const warehouseData = useWarehouseCheck();
         headers: {
           "Content-Type": "application/json",
         },
-        body: JSON.stringify({
-          from_latitude: originApiCity.center_latitude,
-          from_longitude: originApiCity.center_longitude,
-          to_latitude: destinationApiCity.center_latitude,
-          to_longitude: destinationApiCity.center_longitude,
-          weight: weight,
-          tariff_type: form.tariffType,
-        }),
+        body: JSON.stringify(parsed.data),
       });
 
+      if (response.status === 400) {
+        const errorData: ValidationErrorResponse = await response.json();
+        console.error("Validation errors:", errorData.errors);
+        setError(
+          errorData.errors
+            ?.map((fieldError) => fieldError.message)
+            .join("; ") || t.calculationError,
+        );
+        return;
+      }
+
+      if (response.status === 422) {
+        const errorData: TariffUnavailableResponse | ErrorResponse =
+          await response.json();
+        setError(
+          errorData.code === "TARIFF_UNAVAILABLE"
+            ? describeUnavailable(errorData.reason)
+            : formatMessage(t.shipmentRejected, { details: errorData.details }),
+        );
+        return;
+      }
+
+      if (response.status === 429) {
+        showRateLimited(response);
+        return;
+      }
+
       if (!response.ok) {
         const errorData = await response.text();
         console.error("API error response:", errorData);
@@ -463,15 +332,86 @@ const warehouseData = useWarehouseCheck();
     }
   };
 
+  const compareTariffs = async () => {
+    if (!canCompare()) {
+      setError(t.fillAllFields);
+      return;
+    }
+
+    const parsed = allTariffsInputSchema.safeParse({
+      ...getShipment(),
+      from_city_id: form.originCity.shipox_id,
+      to_city_id: form.destinationCity.shipox_id,
+    });
+    if (!parsed.success) {
+      showValidationIssue(parsed.error.issues[0]);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const response = await fetch("/api/calculate-tariff/all", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(parsed.data),
+      });
+
+      if (response.status === 400) {
+        const errorData: ValidationErrorResponse = await response.json();
+        setError(
+          errorData.errors
+            ?.map((fieldError) => fieldError.message)
+            .join("; ") || t.calculationError,
+        );
+        return;
+      }
+
+      if (response.status === 422) {
+        const errorData: TariffUnavailableResponse | ErrorResponse =
+          await response.json();
+        setError(
+          errorData.code === "TARIFF_UNAVAILABLE"
+            ? describeUnavailable(errorData.reason)
+            : formatMessage(t.shipmentRejected, { details: errorData.details }),
+        );
+        return;
+      }
+
+      if (response.status === 429) {
+        showRateLimited(response);
+        return;
+      }
+
+      if (!response.ok) {
+        throw new Error(`API error: ${response.status} ${response.statusText}`);
+      }
+
+      setComparison(await response.json());
+    } catch (err) {
+      console.error("Tariff comparison error:", err);
+      setError(t.calculationError);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return {
     form,
     result,
+    comparison,
     loading,
     error,
     updateForm,
     resetForm,
     calculateTariff,
+    compareTariffs,
     isFormValid,
+    canCompare,
     canCalculate,
     isCalculationDisabled,
     warehouseWarning,
@@ -0,0 +1,25 @@
+import { TariffExclusionReason } from "@shared/api";
+import { Translations, formatMessage } from "@/hooks/useI18n";
+
+/**
+ * Warning shown when a tariff type cannot serve the selected cities, for
+ * the reason codes of /api/availability
+ */
+export function describeUnavailableTariff(
+  reason: TariffExclusionReason,
+  cities: { origin: string; destination: string },
+  t: Translations,
+): string {
+  switch (reason) {
+    case "NO_ORIGIN_OFFICE":
+      return formatMessage(t.noOriginWarehouse, { city: cities.origin });
+    case "NO_DESTINATION_OFFICE":
+      return formatMessage(t.noDestinationWarehouse, {
+        city: cities.destination,
+      });
+    case "NO_DESTINATION_LOCKER":
+      return formatMessage(t.noDestinationLocker, {
+        city: cities.destination,
+      });
+  }
+}
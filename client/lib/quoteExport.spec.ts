@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { calculatePriceBreakdown } from "@shared/pricing";
+import { buildQuoteCsv } from "./quoteExport";
+
+const labels = {
+  tariff: "Tariff",
+  item: "Item",
+  net: "Net",
+  vat: "VAT 12%",
+  gross: "Gross",
+  delivery: "Delivery",
+  codFee: "COD commission (3%)",
+  declaredValueFee: "Declared value surcharge (1%)",
+  total: "Total",
+};
+
+describe("buildQuoteCsv", () => {
+  it("should list net, VAT and gross for each item", () => {
+    const csv = buildQuoteCsv(
+      [
+        {
+          tariff: "Office → Office",
+          breakdown: calculatePriceBreakdown({
+            delivery: 25000,
+            codAmount: 112000,
+          }),
+        },
+      ],
+      labels,
+    );
+
+    expect(csv.split("\n")).toEqual([
+      "Tariff,Item,Net,VAT 12%,Gross",
+      "Office → Office,Delivery,25000,3000,28000",
+      "Office → Office,COD commission (3%),3000,360,3360",
+      "Office → Office,Total,28000,3360,31360",
+    ]);
+  });
+
+  it("should quote cells that contain commas", () => {
+    const csv = buildQuoteCsv(
+      [
+        {
+          tariff: 'Door, "express"',
+          breakdown: calculatePriceBreakdown({ delivery: 1000 }),
+        },
+      ],
+      labels,
+    );
+
+    expect(csv.split("\n")[1]).toBe(
+      '"Door, ""express""",Delivery,1000,120,1120',
+    );
+  });
+});
@@ -0,0 +1,69 @@
+import { PriceBreakdown, PriceLine } from "@shared/api";
+
+export interface QuoteExportRow {
+  tariff: string;
+  breakdown: PriceBreakdown;
+}
+
+export interface QuoteExportLabels {
+  tariff: string;
+  item: string;
+  net: string;
+  vat: string;
+  gross: string;
+  delivery: string;
+  codFee: string;
+  declaredValueFee: string;
+  total: string;
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Builds a CSV of quotes with net, VAT and gross amounts per item.
+ * Fee items that do not apply are left out.
+ */
+export function buildQuoteCsv(
+  rows: QuoteExportRow[],
+  labels: QuoteExportLabels,
+): string {
+  const lines: (string | number)[][] = [
+    [labels.tariff, labels.item, labels.net, labels.vat, labels.gross],
+  ];
+
+  for (const { tariff, breakdown } of rows) {
+    const items: [string, PriceLine][] = [
+      [labels.delivery, breakdown.delivery],
+      [labels.codFee, breakdown.codFee],
+      [labels.declaredValueFee, breakdown.declaredValueFee],
+    ];
+
+    for (const [item, line] of items) {
+      if (item !== labels.delivery && line.gross === 0) continue;
+      lines.push([tariff, item, line.net, line.vat, line.gross]);
+    }
+    lines.push([
+      tariff,
+      labels.total,
+      breakdown.total.net,
+      breakdown.total.vat,
+      breakdown.total.gross,
+    ]);
+  }
+
+  return lines.map((line) => line.map(csvCell).join(",")).join("\n");
+}
+
+export function downloadCsv(filename: string, csv: string) {
+  // The BOM makes Excel read Cyrillic names as UTF-8
+  const blob = new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
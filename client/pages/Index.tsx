@@ -9,6 +9,13 @@ import {
   RefreshCw,
   CheckCircle,
   ArrowLeftRight,
+  Box,
+  Scale,
+  Zap,
+  Clock,
+  Banknote,
+  Printer,
+  Download,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -32,15 +39,17 @@ import { Badge } from "@/components/ui/badge";
 import { RegionCityCombobox } from "@/components/RegionCityCombobox";
 import { TariffResultSkeleton } from "@/components/LoadingSkeleton";
 import { TariffTables } from "@/components/TariffTables";
+import { PriceBreakdown } from "@/components/PriceBreakdown";
+import { buildQuoteCsv, downloadCsv } from "@/lib/quoteExport";
 import { useRegionBasedTariffCalculator } from "@/hooks/useRegionBasedTariffCalculator";
 import { useI18n } from "@/hooks/useI18n";
 import { LanguageSwitcher } from "@/components/LanguageSwitcher";
 import { Navigation } from "@/components/Navigation";
 import { Logo } from "@/components/Logo";
-import { TariffType } from "@shared/api";
+import { TariffExclusionReason, TariffPrice, TariffType } from "@shared/api";
 
 export default function Index() {
-  const { t, language } = useI18n();
+  const { t, language, formatMessage } = useI18n();
   const resultsRef = useRef<HTMLDivElement>(null);
 
   const getCityDisplayName = (city: any) => {
@@ -63,12 +72,15 @@ export default function Index() {
   const {
     form,
     result,
+    comparison,
     loading,
     error,
     updateForm,
     resetForm,
     calculateTariff,
+    compareTariffs,
     isFormValid,
+    canCompare,
     canCalculate,
     isCalculationDisabled,
     warehouseWarning,
@@ -90,14 +102,10 @@ export default function Index() {
 
   // Auto-scroll to results when they appear
   useEffect(() => {
-    if (
-      result &&
-      result.data &&
-      result.data.list &&
-      result.data.list.length > 0 &&
-      !loading &&
-      resultsRef.current
-    ) {
+    const hasResults =
+      (result?.data?.list?.length ?? 0) > 0 ||
+      (comparison?.data?.list?.length ?? 0) > 0;
+    if (hasResults && !loading && resultsRef.current) {
       setTimeout(() => {
         resultsRef.current?.scrollIntoView({
           behavior: "smooth",
@@ -105,7 +113,7 @@ export default function Index() {
         });
       }, 300); // Small delay to ensure the results are fully rendered
     }
-  }, [result, loading]);
+  }, [result, comparison, loading]);
 
   // Get localized tariff type names
   const getTariffTypes = () => [
@@ -132,10 +140,58 @@ export default function Index() {
     return tariffType ? tariffType.label : tariff.name || "Доставка";
   };
 
+  const getTariffTypeLabel = (type: TariffType) =>
+    getTariffTypes().find((option) => option.value === type)?.label || type;
+
+  const exportQuotes = (list: TariffPrice[]) => {
+    const csv = buildQuoteCsv(
+      list
+        .filter((tariff) => tariff.breakdown)
+        .map((tariff) => ({
+          tariff: getTariffName(tariff),
+          breakdown: tariff.breakdown,
+        })),
+      {
+        tariff: t.tariffType,
+        item: t.priceItem,
+        net: t.priceNet,
+        vat: formatMessage(t.vat, {
+          rate: Math.round((list[0]?.breakdown?.vatRate ?? 0) * 1000) / 10,
+        }),
+        gross: t.priceGross,
+        delivery: t.deliveryCost,
+        codFee: t.codFee,
+        declaredValueFee: t.declaredValueFee,
+        total: t.total,
+      },
+    );
+    downloadCsv("fargo-quote.csv", csv);
+  };
+
+  // Print and export buttons for a results card; hidden on paper
+  const renderQuoteActions = (list: TariffPrice[]) => (
+    <div className="flex gap-2 print:hidden">
+      <Button variant="outline" size="sm" onClick={() => window.print()}>
+        <Printer className="mr-2 h-4 w-4" />
+        {t.printQuote}
+      </Button>
+      <Button variant="outline" size="sm" onClick={() => exportQuotes(list)}>
+        <Download className="mr-2 h-4 w-4" />
+        {t.exportQuote}
+      </Button>
+    </div>
+  );
+
+  const exclusionReasons: Record<TariffExclusionReason, string> = {
+    NO_ORIGIN_OFFICE: t.reasonNoOriginOffice,
+    NO_DESTINATION_OFFICE: t.reasonNoDestinationOffice,
+    NO_DESTINATION_LOCKER: t.reasonNoDestinationLocker,
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 via-gray-50 to-red-50">
       {/* Header */}
-      <div className="border-b bg-white/80 backdrop-blur-sm sticky top-0 z-10">
+      <div className="border-b bg-white/80 backdrop-blur-sm sticky top-0 z-10 print:hidden">
         <div className="container">
           <div className="py-4 flex items-center gap-3">
             <Logo />
@@ -158,7 +214,7 @@ export default function Index() {
       <div className="container">
         <div className="py-4 sm:py-8 max-w-4xl mx-auto space-y-4 sm:space-y-6">
           {/* Form Card */}
-          <Card className="border-0 shadow-xl bg-white/90 backdrop-blur-sm">
+          <Card className="border-0 shadow-xl bg-white/90 backdrop-blur-sm print:hidden">
             <CardHeader className="pb-4 sm:pb-6">
               <CardTitle className="text-xl sm:text-2xl text-center">
                 {t.calculatorTitle}
@@ -318,6 +374,64 @@ export default function Index() {
                 </div>
               </div>
 
+              {/* Parcel Dimensions */}
+              <div className="space-y-3">
+                <Label className="text-base font-medium flex items-center gap-2">
+                  <Box className="h-4 w-4 text-slate-700" />
+                  {t.dimensions}
+                </Label>
+                <div className="grid grid-cols-3 gap-3">
+                  {(["length", "width", "height"] as const).map((dimension) => (
+                    <Input
+                      key={dimension}
+                      type="number"
+                      placeholder={t[dimension]}
+                      aria-label={t[dimension]}
+                      value={form[dimension]}
+                      onChange={(e) =>
+                        updateForm({ [dimension]: e.target.value })
+                      }
+                      min="1"
+                      step="1"
+                      className="h-11"
+                    />
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500">{t.dimensionsHint}</p>
+              </div>
+
+              {/* COD and Declared Value */}
+              <div className="space-y-3">
+                <Label className="text-base font-medium flex items-center gap-2">
+                  <Banknote className="h-4 w-4 text-slate-700" />
+                  {t.additionalServices}
+                </Label>
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <Input
+                    type="number"
+                    placeholder={t.codAmount}
+                    aria-label={t.codAmount}
+                    value={form.codAmount}
+                    onChange={(e) => updateForm({ codAmount: e.target.value })}
+                    min="0"
+                    step="1000"
+                    className="h-11"
+                  />
+                  <Input
+                    type="number"
+                    placeholder={t.declaredValue}
+                    aria-label={t.declaredValue}
+                    value={form.declaredValue}
+                    onChange={(e) =>
+                      updateForm({ declaredValue: e.target.value })
+                    }
+                    min="0"
+                    step="1000"
+                    className="h-11"
+                  />
+                </div>
+              </div>
+
               {/* Warehouse Warning */}
               {warehouseWarning.show && (
                 <div className="bg-amber-50 border border-amber-200 rounded-lg p-4">
@@ -365,6 +479,15 @@ export default function Index() {
                     </>
                   )}
                 </Button>
+                <Button
+                  variant="outline"
+                  onClick={compareTariffs}
+                  disabled={!canCompare() || loading}
+                  className="h-11 sm:h-12 px-6"
+                >
+                  <Scale className="mr-2 h-4 w-4" />
+                  {t.compareAll}
+                </Button>
                 <Button
                   variant="outline"
                   onClick={resetForm}
@@ -403,14 +526,35 @@ export default function Index() {
                 ref={resultsRef}
                 className="border-0 shadow-xl bg-white/90 backdrop-blur-sm"
               >
-                <CardHeader>
-                  <CardTitle className="text-xl flex items-center gap-2">
-                    <CheckCircle className="h-5 w-5 text-green-600" />
-                    {t.calculationResults}
-                  </CardTitle>
-                  <CardDescription>{t.calculatorDescription}</CardDescription>
+                <CardHeader className="flex-row items-start justify-between gap-4 space-y-0">
+                  <div className="space-y-1.5">
+                    <CardTitle className="text-xl flex items-center gap-2">
+                      <CheckCircle className="h-5 w-5 text-green-600" />
+                      {t.calculationResults}
+                    </CardTitle>
+                    <CardDescription>{t.calculatorDescription}</CardDescription>
+                  </div>
+                  {renderQuoteActions(result.data.list)}
                 </CardHeader>
                 <CardContent>
+                  {result.estimate && (
+                    <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mb-4">
+                      <p className="text-amber-800 text-sm">{t.estimateHint}</p>
+                    </div>
+                  )}
+                  {result.weights && (
+                    <div className="flex flex-wrap gap-2 mb-4">
+                      <Badge variant="secondary">
+                        {t.chargeableWeight}: {result.weights.chargeable} {t.kg}
+                      </Badge>
+                      {result.weights.volumetric > 0 && (
+                        <Badge variant="outline">
+                          {t.volumetricWeight}: {result.weights.volumetric}{" "}
+                          {t.kg}
+                        </Badge>
+                      )}
+                    </div>
+                  )}
                   <div className="space-y-3 sm:space-y-4">
                     {result.data.list.map((tariff, index) => (
                       <div
@@ -422,14 +566,26 @@ export default function Index() {
                             <h3 className="font-semibold text-base sm:text-lg">
                               {getTariffName(tariff)}
                             </h3>
+                            {tariff.estimate && (
+                              <Badge variant="outline">{t.estimate}</Badge>
+                            )}
                           </div>
                           <div className="text-left sm:text-right">
                             <div className="text-xl sm:text-2xl font-bold text-green-600">
-                              {formatPrice(tariff.price.total)}
+                              {formatPrice(
+                                tariff.breakdown?.total.gross ??
+                                  tariff.price.total,
+                              )}
                             </div>
                             <div className="text-xs text-gray-500">UZS</div>
                           </div>
                         </div>
+                        {tariff.breakdown && (
+                          <PriceBreakdown
+                            breakdown={tariff.breakdown}
+                            formatPrice={formatPrice}
+                          />
+                        )}
                       </div>
                     ))}
                   </div>
@@ -437,6 +593,117 @@ export default function Index() {
               </Card>
             )}
 
+          {/* Comparison Card */}
+          {comparison && !loading && (
+            <Card
+              ref={resultsRef}
+              className="border-0 shadow-xl bg-white/90 backdrop-blur-sm"
+            >
+              <CardHeader className="flex-row items-start justify-between gap-4 space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle className="text-xl flex items-center gap-2">
+                    <Scale className="h-5 w-5 text-green-600" />
+                    {t.comparisonTitle}
+                  </CardTitle>
+                  <CardDescription>{t.comparisonDescription}</CardDescription>
+                </div>
+                {comparison.data.list.length > 0 &&
+                  renderQuoteActions(comparison.data.list)}
+              </CardHeader>
+              <CardContent>
+                {comparison.estimate && (
+                  <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 mb-4">
+                    <p className="text-amber-800 text-sm">{t.estimateHint}</p>
+                  </div>
+                )}
+                <div className="flex flex-wrap gap-2 mb-4">
+                  <Badge variant="secondary">
+                    {t.chargeableWeight}: {comparison.weights.chargeable} {t.kg}
+                  </Badge>
+                </div>
+                {comparison.data.list.length > 0 ? (
+                  <div className="grid gap-3 sm:grid-cols-2">
+                    {comparison.data.list.map((tariff, index) => (
+                      <div
+                        key={tariff.id || index}
+                        className="border rounded-lg p-3 sm:p-4 hover:shadow-md transition-shadow space-y-2"
+                      >
+                        <div className="flex flex-wrap items-center gap-2">
+                          <h3 className="font-semibold text-base">
+                            {getTariffName(tariff)}
+                          </h3>
+                          {tariff.courier_type.type === comparison.cheapest && (
+                            <Badge className="bg-green-600">{t.cheapest}</Badge>
+                          )}
+                          {tariff.courier_type.type === comparison.fastest && (
+                            <Badge className="bg-blue-600">
+                              <Zap className="mr-1 h-3 w-3" />
+                              {t.fastest}
+                            </Badge>
+                          )}
+                          {tariff.estimate && (
+                            <Badge variant="outline">{t.estimate}</Badge>
+                          )}
+                        </div>
+                        <div className="flex items-end justify-between gap-4">
+                          <div className="text-xs text-gray-500 flex items-center gap-1">
+                            {tariff.price.duration > 0 && (
+                              <>
+                                <Clock className="h-3 w-3" />
+                                {t.deliveryTimeLabel}:{" "}
+                                {formatDeliveryTime(tariff.price.duration)}
+                              </>
+                            )}
+                          </div>
+                          <div className="text-xl font-bold text-green-600">
+                            {formatPrice(
+                              tariff.breakdown?.total.gross ??
+                                tariff.price.total,
+                            )}
+                          </div>
+                        </div>
+                        {tariff.breakdown && (
+                          <PriceBreakdown
+                            breakdown={tariff.breakdown}
+                            formatPrice={formatPrice}
+                          />
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-gray-600">{t.tryChangeParams}</p>
+                )}
+
+                {(comparison.excluded.length > 0 ||
+                  comparison.failed.length > 0) && (
+                  <div className="mt-4 space-y-1">
+                    <p className="text-sm font-medium text-gray-700">
+                      {t.unavailableTariffs}
+                    </p>
+                    {comparison.excluded.map((entry) => (
+                      <p
+                        key={entry.tariff_type}
+                        className="text-sm text-gray-500"
+                      >
+                        {getTariffTypeLabel(entry.tariff_type)}:{" "}
+                        {exclusionReasons[entry.reason]}
+                      </p>
+                    ))}
+                    {comparison.failed.map((entry) => (
+                      <p
+                        key={entry.tariff_type}
+                        className="text-sm text-gray-500"
+                      >
+                        {getTariffTypeLabel(entry.tariff_type)}: {t.quoteFailed}
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
           {/* No Results */}
           {result &&
             result.data &&
@@ -455,7 +722,9 @@ export default function Index() {
             )}
 
           {/* Tariff Tables */}
-          <TariffTables />
+          <div className="print:hidden">
+            <TariffTables />
+          </div>
         </div>
       </div>
     </div>
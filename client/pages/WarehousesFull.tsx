@@ -1,5 +1,14 @@
 import React, { useState, useEffect } from "react";
-import { MapPin, Search, Filter, Building, Package, Phone } from "lucide-react";
+import {
+  MapPin,
+  Search,
+  Filter,
+  Building,
+  Package,
+  Phone,
+  LocateFixed,
+  Loader2,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -11,7 +20,13 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Warehouse } from "@shared/api";
+import {
+  NearestWarehouse,
+  NearestWarehousesResponse,
+  Warehouse,
+  WarehouseType,
+} from "@shared/api";
+import { matchesSearch } from "@shared/transliteration";
 import { useI18n } from "@/hooks/useI18n";
 import { LanguageSwitcher } from "@/components/LanguageSwitcher";
 import { Navigation } from "@/components/Navigation";
@@ -19,15 +34,31 @@ import { Logo } from "@/components/Logo";
 
 type FilterType = "all" | "warehouse" | "locker";
 
+const FILTER_WAREHOUSE_TYPES: Record<FilterType, WarehouseType | null> = {
+  all: null,
+  warehouse: "POST_OFFICE",
+  locker: "LOCKER",
+};
+
+// Points listed and shown on the map in "near me" mode
+const NEAR_ME_LIMIT = 20;
+const NEAR_ME_ZOOM = 13;
+
 // Yandex Maps component with real integration
 function YandexMap({
   selectedItems,
   onItemClick,
+  center,
 }: {
   selectedItems: Warehouse[];
   onItemClick?: (item: Warehouse) => void;
+  /** The user's position in "near me" mode; the map is centred on it */
+  center?: [number, number] | null;
 }) {
   const mapRef = React.useRef<any>(null);
+  const userPlacemarkRef = React.useRef<any>(null);
+  // Recentre only when the position changes, not on every render
+  const centeredOnRef = React.useRef<[number, number] | null>(null);
 
   useEffect(() => {
     // Load Yandex Maps API script
@@ -53,6 +84,12 @@ function YandexMap({
           });
         }
 
+        // The user's position is not one of the items
+        if (userPlacemarkRef.current) {
+          mapRef.current.geoObjects.remove(userPlacemarkRef.current);
+          userPlacemarkRef.current = null;
+        }
+
         // Only clear and re-add if items have changed
         const currentPlacemarks = mapRef.current.geoObjects.getLength();
         if (currentPlacemarks !== selectedItems.length) {
@@ -115,7 +152,7 @@ function YandexMap({
           });
 
           // Auto-fit bounds if there are items
-          if (selectedItems.length > 0) {
+          if (selectedItems.length > 0 && !center) {
             const coords = selectedItems
               .filter((item) => item.lat && item.lon)
               .map((item) => [item.lat, item.lon]);
@@ -128,9 +165,22 @@ function YandexMap({
             }
           }
         }
+
+        if (center) {
+          userPlacemarkRef.current = new window.ymaps.Placemark(
+            center,
+            {},
+            { preset: "islands#geolocationIcon" },
+          );
+          mapRef.current.geoObjects.add(userPlacemarkRef.current);
+          if (centeredOnRef.current !== center) {
+            mapRef.current.setCenter(center, NEAR_ME_ZOOM, { duration: 300 });
+          }
+        }
+        centeredOnRef.current = center ?? null;
       });
     }
-  }, [selectedItems, onItemClick]);
+  }, [selectedItems, onItemClick, center]);
 
   return (
     <div className="w-full h-96 lg:h-[450px] rounded-lg overflow-hidden border bg-gray-100">
@@ -148,6 +198,15 @@ export default function WarehousesFull() {
   const [search, setSearch] = useState("");
   const [filterType, setFilterType] = useState<FilterType>("all");
   const [selectedItem, setSelectedItem] = useState<Warehouse | null>(null);
+  const [userLocation, setUserLocation] = useState<[number, number] | null>(
+    null,
+  );
+  const [nearest, setNearest] = useState<NearestWarehouse[]>([]);
+  const [locating, setLocating] = useState(false);
+  // A translation key, so the message follows language changes
+  const [nearMeError, setNearMeError] = useState<
+    "nearMeFailed" | "nearMeUnsupported" | "nearMeDenied" | null
+  >(null);
 
   useEffect(() => {
     const fetchData = async () => {
@@ -204,9 +263,76 @@ export default function WarehousesFull() {
     fetchData();
   }, []);
 
+  // Reload the nearest points when the position or the type filter changes
+  useEffect(() => {
+    if (!userLocation) return;
+
+    const [lat, lon] = userLocation;
+    const params = new URLSearchParams({
+      lat: lat.toString(),
+      lon: lon.toString(),
+      limit: NEAR_ME_LIMIT.toString(),
+    });
+    const type = FILTER_WAREHOUSE_TYPES[filterType];
+    if (type) params.set("type", type);
+
+    let cancelled = false;
+    fetch(`/api/warehouses/nearest?${params}`)
+      .then(async (response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        const data: NearestWarehousesResponse = await response.json();
+        if (cancelled) return;
+        setNearest(data.data);
+        setNearMeError(null);
+      })
+      .catch((error) => {
+        console.error("Error fetching nearest warehouses:", error);
+        if (cancelled) return;
+        setNearest([]);
+        setNearMeError("nearMeFailed");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userLocation, filterType]);
+
+  const startNearMe = () => {
+    setNearMeError(null);
+    if (!navigator.geolocation) {
+      setNearMeError("nearMeUnsupported");
+      return;
+    }
+
+    setLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setLocating(false);
+        setUserLocation([position.coords.latitude, position.coords.longitude]);
+      },
+      (positionError) => {
+        setLocating(false);
+        setNearMeError(
+          positionError.code === positionError.PERMISSION_DENIED
+            ? "nearMeDenied"
+            : "nearMeFailed",
+        );
+      },
+      { enableHighAccuracy: false, timeout: 10000, maximumAge: 60000 },
+    );
+  };
+
+  const stopNearMe = () => {
+    setUserLocation(null);
+    setNearest([]);
+    setNearMeError(null);
+  };
+
   // Filter items based on search and type
-  const filteredItems = () => {
-    let items = allWarehouses;
+  const filteredItems = (): (Warehouse | NearestWarehouse)[] => {
+    let items: (Warehouse | NearestWarehouse)[] = userLocation
+      ? nearest
+      : allWarehouses;
 
     // Filter by type
     if (filterType === "warehouse") {
@@ -215,14 +341,12 @@ export default function WarehousesFull() {
       items = items.filter((item) => item.type === "LOCKER");
     }
 
-    // Filter by search (name or city)
+    // Filter by search (name, city or address), in any script
     if (search.trim()) {
-      const searchLower = search.toLowerCase();
-      items = items.filter(
-        (item) =>
-          item.city.toLowerCase().includes(searchLower) ||
-          item.name.toLowerCase().includes(searchLower) ||
-          item.address?.toLowerCase().includes(searchLower),
+      items = items.filter((item) =>
+        [item.city, item.name, item.address].some(
+          (text) => text && matchesSearch(text, search),
+        ),
       );
     }
 
@@ -357,6 +481,37 @@ export default function WarehousesFull() {
                   </Select>
                 </div>
 
+                {/* Near me */}
+                <div className="flex flex-wrap items-center gap-3">
+                  {userLocation ? (
+                    <Button variant="outline" size="sm" onClick={stopNearMe}>
+                      {t.showAllPoints}
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={startNearMe}
+                      disabled={locating}
+                    >
+                      {locating ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <LocateFixed className="h-4 w-4 mr-2" />
+                      )}
+                      {locating ? t.nearMeLocating : t.nearMe}
+                    </Button>
+                  )}
+                  {userLocation && (
+                    <span className="text-sm text-slate-600">
+                      {t.nearMeResults}
+                    </span>
+                  )}
+                </div>
+                {nearMeError && (
+                  <p className="text-sm text-red-600">{t[nearMeError]}</p>
+                )}
+
                 {/* Results Count */}
                 <div className="text-sm text-slate-600">
                   {formatMessage(t.displayedCount, {
@@ -407,6 +562,13 @@ export default function WarehousesFull() {
                           <div className="flex items-center gap-2 text-sm text-slate-600">
                             <MapPin className="h-4 w-4" />
                             <span>{item.city}</span>
+                            {"distanceKm" in item && (
+                              <Badge variant="outline" className="text-xs">
+                                {formatMessage(t.distanceKm, {
+                                  distance: item.distanceKm.toFixed(1),
+                                })}
+                              </Badge>
+                            )}
                           </div>
                           {item.address && (
                             <p className="text-sm text-slate-700">
@@ -480,6 +642,7 @@ export default function WarehousesFull() {
                   <YandexMap
                     selectedItems={selectedItems}
                     onItemClick={handleItemClick}
+                    center={userLocation}
                   />
                 </div>
                 <div className="mt-4 flex gap-2 text-xs">
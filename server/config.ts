@@ -0,0 +1,402 @@
+import os from "os";
+import path from "path";
+import { z } from "zod";
+import { LOG_LEVELS, LogLevel } from "./lib/logger";
+import { TOKEN_STORE_TYPES, TokenStoreType } from "./lib/tokens";
+
+/**
+ * Server configuration loaded from environment variables.
+ * Validated once in createServer() so a misconfigured deployment
+ * fails on startup instead of on the first gateway call.
+ */
+
+export const SIMULATOR_SCENARIOS = [
+  "default",
+  "slow",
+  "unauthorized",
+  "server-error",
+  "empty",
+  "rejected",
+] as const;
+
+export type SimulatorScenario = (typeof SIMULATOR_SCENARIOS)[number];
+
+// Simulator mode needs no real account, so these fill in whatever is unset
+const SIMULATOR_DEFAULTS = {
+  FARGO_GATEWAY_URL: "http://fargo-simulator.local",
+  FARGO_USERNAME: "simulator@fargo.uz",
+  FARGO_PASSWORD: "simulator",
+  FARGO_CUSTOMER_ID: "1",
+  FARGO_MARKETPLACE_ID: "1",
+};
+
+const positiveInt = (name: string, defaultValue: number) =>
+  z.coerce
+    .number({ invalid_type_error: `${name} must be a number` })
+    .int(`${name} must be an integer`)
+    .positive(`${name} must be greater than 0`)
+    .default(defaultValue);
+
+const nonNegativeInt = (name: string, defaultValue: number) =>
+  z.coerce
+    .number({ invalid_type_error: `${name} must be a number` })
+    .int(`${name} must be an integer`)
+    .nonnegative(`${name} must not be negative`)
+    .default(defaultValue);
+
+const modeEnvSchema = z.object({
+  FARGO_GATEWAY_MODE: z
+    .enum(["live", "simulator"], {
+      errorMap: () => ({
+        message: 'FARGO_GATEWAY_MODE must be "live" or "simulator"',
+      }),
+    })
+    .default("live"),
+});
+
+const simulatorEnvSchema = z.object({
+  FARGO_SIMULATOR_SCENARIO: z
+    .enum(SIMULATOR_SCENARIOS, {
+      errorMap: () => ({
+        message: `FARGO_SIMULATOR_SCENARIO must be one of: ${SIMULATOR_SCENARIOS.join(", ")}`,
+      }),
+    })
+    .default("default"),
+  FARGO_SIMULATOR_DELAY_MS: z.coerce
+    .number({ invalid_type_error: "FARGO_SIMULATOR_DELAY_MS must be a number" })
+    .int()
+    .nonnegative("FARGO_SIMULATOR_DELAY_MS must not be negative")
+    .default(2000),
+});
+
+const gatewayEnvSchema = z.object({
+  FARGO_GATEWAY_URL: z
+    .string({ required_error: "FARGO_GATEWAY_URL is required" })
+    .url("FARGO_GATEWAY_URL must be a valid URL"),
+  FARGO_USERNAME: z
+    .string({ required_error: "FARGO_USERNAME is required" })
+    .min(1, "FARGO_USERNAME must not be empty"),
+  FARGO_PASSWORD: z
+    .string({ required_error: "FARGO_PASSWORD is required" })
+    .min(1, "FARGO_PASSWORD must not be empty"),
+  FARGO_CUSTOMER_ID: z
+    .string({ required_error: "FARGO_CUSTOMER_ID is required" })
+    .regex(/^\d+$/, "FARGO_CUSTOMER_ID must be numeric"),
+  FARGO_MARKETPLACE_ID: z
+    .string({ required_error: "FARGO_MARKETPLACE_ID is required" })
+    .regex(/^\d+$/, "FARGO_MARKETPLACE_ID must be numeric"),
+  FARGO_COUNTRY_ID: z
+    .string()
+    .regex(/^\d+$/, "FARGO_COUNTRY_ID must be numeric")
+    .default("234"),
+  FARGO_PAGE_SIZE: positiveInt("FARGO_PAGE_SIZE", 200),
+  FARGO_PAGE_CONCURRENCY: positiveInt("FARGO_PAGE_CONCURRENCY", 4),
+  FARGO_BATCH_CONCURRENCY: positiveInt("FARGO_BATCH_CONCURRENCY", 4),
+  FARGO_TIMEOUT_MS: positiveInt("FARGO_TIMEOUT_MS", 10000),
+  FARGO_RETRIES: nonNegativeInt("FARGO_RETRIES", 2),
+  FARGO_RETRY_DELAY_MS: nonNegativeInt("FARGO_RETRY_DELAY_MS", 200),
+  FARGO_BREAKER_THRESHOLD: positiveInt("FARGO_BREAKER_THRESHOLD", 5),
+  FARGO_BREAKER_COOLDOWN_MS: positiveInt("FARGO_BREAKER_COOLDOWN_MS", 30000),
+  FARGO_TOKEN_STORE: z
+    .enum(TOKEN_STORE_TYPES, {
+      errorMap: () => ({
+        message: `FARGO_TOKEN_STORE must be one of: ${TOKEN_STORE_TYPES.join(", ")}`,
+      }),
+    })
+    .default("memory"),
+  FARGO_TOKEN_STORE_PATH: z
+    .string()
+    .min(1, "FARGO_TOKEN_STORE_PATH must not be empty")
+    .optional(),
+});
+
+// Where the file and kv token stores live unless FARGO_TOKEN_STORE_PATH is set
+const DEFAULT_TOKEN_STORE_PATHS: Record<TokenStoreType, string> = {
+  memory: "",
+  file: path.join(os.tmpdir(), "fargo-token.json"),
+  kv: path.join(os.tmpdir(), "fargo-kv"),
+};
+
+const cacheEnvSchema = z.object({
+  CACHE_CITIES_TTL_SECONDS: nonNegativeInt("CACHE_CITIES_TTL_SECONDS", 3600),
+  CACHE_WAREHOUSES_TTL_SECONDS: nonNegativeInt(
+    "CACHE_WAREHOUSES_TTL_SECONDS",
+    600,
+  ),
+  CACHE_LOCKERS_TTL_SECONDS: nonNegativeInt("CACHE_LOCKERS_TTL_SECONDS", 600),
+  CACHE_STALE_TTL_SECONDS: nonNegativeInt("CACHE_STALE_TTL_SECONDS", 86400),
+});
+
+export const PRICING_FALLBACKS = ["rate-card", "off"] as const;
+
+const pricingEnvSchema = z.object({
+  PRICING_FALLBACK: z
+    .enum(PRICING_FALLBACKS, {
+      errorMap: () => ({
+        message: `PRICING_FALLBACK must be one of: ${PRICING_FALLBACKS.join(", ")}`,
+      }),
+    })
+    .default("rate-card"),
+  VAT_RATE_PERCENT: z.coerce
+    .number({ invalid_type_error: "VAT_RATE_PERCENT must be a number" })
+    .min(0, "VAT_RATE_PERCENT must not be negative")
+    .max(100, "VAT_RATE_PERCENT must not exceed 100")
+    .default(12),
+});
+
+const loggingEnvSchema = z.object({
+  LOG_LEVEL: z
+    .enum(LOG_LEVELS, {
+      errorMap: () => ({
+        message: `LOG_LEVEL must be one of: ${LOG_LEVELS.join(", ")}`,
+      }),
+    })
+    .default("info"),
+});
+
+const rateLimitEnvSchema = z.object({
+  RATE_LIMIT_CALCULATION_PER_MINUTE: nonNegativeInt(
+    "RATE_LIMIT_CALCULATION_PER_MINUTE",
+    30,
+  ),
+  RATE_LIMIT_LOOKUP_PER_MINUTE: nonNegativeInt(
+    "RATE_LIMIT_LOOKUP_PER_MINUTE",
+    120,
+  ),
+  RATE_LIMIT_STATIC_PER_MINUTE: nonNegativeInt(
+    "RATE_LIMIT_STATIC_PER_MINUTE",
+    600,
+  ),
+  RATE_LIMIT_API_KEYS: z
+    .string()
+    .default("")
+    .transform((value) =>
+      value
+        .split(",")
+        .map((key) => key.trim())
+        .filter(Boolean),
+    )
+    .refine(
+      (keys) => keys.every((key) => key.length >= 16),
+      "RATE_LIMIT_API_KEYS entries must be at least 16 characters",
+    ),
+  RATE_LIMIT_API_KEY_MULTIPLIER: positiveInt(
+    "RATE_LIMIT_API_KEY_MULTIPLIER",
+    10,
+  ),
+  TRUST_PROXY: nonNegativeInt("TRUST_PROXY", 0),
+});
+
+// Netlify and Vercel expose the deployed commit under their own names
+const buildEnvSchema = z.object({
+  BUILD_VERSION: z.string().min(1).optional(),
+  COMMIT_REF: z.string().min(1).optional(),
+  VERCEL_GIT_COMMIT_SHA: z.string().min(1).optional(),
+});
+
+const adminEnvSchema = z.object({
+  ADMIN_TOKEN: z
+    .string()
+    .min(16, "ADMIN_TOKEN must be at least 16 characters")
+    .optional(),
+});
+
+export interface SimulatorConfig {
+  scenario: SimulatorScenario;
+  /** Response delay used by the "slow" scenario */
+  delayMs: number;
+}
+
+export interface GatewayConfig {
+  mode: "live" | "simulator";
+  simulator: SimulatorConfig;
+  baseUrl: string;
+  username: string;
+  password: string;
+  customerId: string;
+  marketplaceId: string;
+  countryId: string;
+  /** Records requested per page from list endpoints */
+  pageSize: number;
+  /** Pages fetched in parallel when a list spans several pages */
+  pageConcurrency: number;
+  /** Price requests in flight at once for /api/calculate-tariff/batch */
+  batchConcurrency: number;
+  /** Deadline for a single gateway call, response body included */
+  timeoutMs: number;
+  /** Extra attempts for GETs that time out or fail with a 5xx */
+  retries: number;
+  /** Delay before the first retry, doubled for each one after it */
+  retryDelayMs: number;
+  /** Consecutive failed calls that open the circuit breaker */
+  breakerThreshold: number;
+  /** How long the open breaker refuses calls before letting one through */
+  breakerCooldownMs: number;
+  tokenStore: TokenStoreConfig;
+}
+
+export interface TokenStoreConfig {
+  /** Where gateway tokens are kept between requests and cold starts */
+  type: TokenStoreType;
+  /** File for "file", directory for "kv" */
+  path: string;
+}
+
+export interface CachePolicyConfig {
+  ttlMs: number;
+  /** How long past the TTL an entry may still be served while refreshing */
+  staleTtlMs: number;
+}
+
+export interface CacheConfig {
+  cities: CachePolicyConfig;
+  warehouses: CachePolicyConfig;
+  lockers: CachePolicyConfig;
+}
+
+export interface PricingConfig {
+  /** Where quotes come from when the gateway cannot price a shipment */
+  fallback: (typeof PRICING_FALLBACKS)[number];
+  /** VAT added to quote breakdowns, as a fraction (0.12 for 12%) */
+  vatRate: number;
+}
+
+export interface LoggingConfig {
+  /** Entries below this level are dropped; "silent" drops everything */
+  level: LogLevel;
+}
+
+export const ENDPOINT_CLASSES = ["calculation", "lookup", "static"] as const;
+
+export type EndpointClass = (typeof ENDPOINT_CLASSES)[number];
+
+export interface RateLimitConfig {
+  /** Requests per minute and client for each class; 0 disables the limit */
+  perMinute: Record<EndpointClass, number>;
+  /** X-API-Key values whose clients are limited per key instead of per IP */
+  apiKeys: string[];
+  /** How many times the per-IP limits API key clients get */
+  apiKeyMultiplier: number;
+  /** Proxy hops in front of the server, used to find the client IP */
+  trustProxy: number;
+}
+
+export interface ServerConfig {
+  gateway: GatewayConfig;
+  cache: CacheConfig;
+  pricing: PricingConfig;
+  logging: LoggingConfig;
+  rateLimit: RateLimitConfig;
+  /** Reported by /api/health, e.g. a release tag or commit SHA */
+  buildVersion: string;
+  /** Bearer token for /api/admin routes; they are disabled when unset */
+  adminToken?: string;
+}
+
+export class ConfigError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid server configuration:\n  - ${issues.join("\n  - ")}`);
+    this.name = "ConfigError";
+  }
+}
+
+// `NAME=` lines in .env files mean "not set", not an empty value
+function withoutEmpty(
+  env: Record<string, string | undefined>,
+): Record<string, string | undefined> {
+  return Object.fromEntries(
+    Object.entries(env).filter(([, value]) => value !== ""),
+  );
+}
+
+export function loadConfig(
+  rawEnv: Record<string, string | undefined> = process.env,
+): ServerConfig {
+  const env = withoutEmpty(rawEnv);
+  const modeEnv = parse(modeEnvSchema, env);
+  const isSimulator = modeEnv.FARGO_GATEWAY_MODE === "simulator";
+  const gatewayEnv = parse(
+    gatewayEnvSchema,
+    isSimulator ? { ...SIMULATOR_DEFAULTS, ...env } : env,
+  );
+  const simulatorEnv = parse(simulatorEnvSchema, env);
+  const cacheEnv = parse(cacheEnvSchema, env);
+  const pricingEnv = parse(pricingEnvSchema, env);
+  const loggingEnv = parse(loggingEnvSchema, env);
+  const rateLimitEnv = parse(rateLimitEnvSchema, env);
+  const buildEnv = parse(buildEnvSchema, env);
+  const adminEnv = parse(adminEnvSchema, env);
+  const staleTtlMs = cacheEnv.CACHE_STALE_TTL_SECONDS * 1000;
+
+  return {
+    gateway: {
+      mode: modeEnv.FARGO_GATEWAY_MODE,
+      simulator: {
+        scenario: simulatorEnv.FARGO_SIMULATOR_SCENARIO,
+        delayMs: simulatorEnv.FARGO_SIMULATOR_DELAY_MS,
+      },
+      baseUrl: gatewayEnv.FARGO_GATEWAY_URL.replace(/\/+$/, ""),
+      username: gatewayEnv.FARGO_USERNAME,
+      password: gatewayEnv.FARGO_PASSWORD,
+      customerId: gatewayEnv.FARGO_CUSTOMER_ID,
+      marketplaceId: gatewayEnv.FARGO_MARKETPLACE_ID,
+      countryId: gatewayEnv.FARGO_COUNTRY_ID,
+      pageSize: gatewayEnv.FARGO_PAGE_SIZE,
+      pageConcurrency: gatewayEnv.FARGO_PAGE_CONCURRENCY,
+      batchConcurrency: gatewayEnv.FARGO_BATCH_CONCURRENCY,
+      timeoutMs: gatewayEnv.FARGO_TIMEOUT_MS,
+      retries: gatewayEnv.FARGO_RETRIES,
+      retryDelayMs: gatewayEnv.FARGO_RETRY_DELAY_MS,
+      breakerThreshold: gatewayEnv.FARGO_BREAKER_THRESHOLD,
+      breakerCooldownMs: gatewayEnv.FARGO_BREAKER_COOLDOWN_MS,
+      tokenStore: {
+        type: gatewayEnv.FARGO_TOKEN_STORE,
+        path:
+          gatewayEnv.FARGO_TOKEN_STORE_PATH ??
+          DEFAULT_TOKEN_STORE_PATHS[gatewayEnv.FARGO_TOKEN_STORE],
+      },
+    },
+    cache: {
+      cities: { ttlMs: cacheEnv.CACHE_CITIES_TTL_SECONDS * 1000, staleTtlMs },
+      warehouses: {
+        ttlMs: cacheEnv.CACHE_WAREHOUSES_TTL_SECONDS * 1000,
+        staleTtlMs,
+      },
+      lockers: { ttlMs: cacheEnv.CACHE_LOCKERS_TTL_SECONDS * 1000, staleTtlMs },
+    },
+    pricing: {
+      fallback: pricingEnv.PRICING_FALLBACK,
+      vatRate: pricingEnv.VAT_RATE_PERCENT / 100,
+    },
+    logging: { level: loggingEnv.LOG_LEVEL },
+    rateLimit: {
+      perMinute: {
+        calculation: rateLimitEnv.RATE_LIMIT_CALCULATION_PER_MINUTE,
+        lookup: rateLimitEnv.RATE_LIMIT_LOOKUP_PER_MINUTE,
+        static: rateLimitEnv.RATE_LIMIT_STATIC_PER_MINUTE,
+      },
+      apiKeys: rateLimitEnv.RATE_LIMIT_API_KEYS,
+      apiKeyMultiplier: rateLimitEnv.RATE_LIMIT_API_KEY_MULTIPLIER,
+      trustProxy: rateLimitEnv.TRUST_PROXY,
+    },
+    buildVersion:
+      buildEnv.BUILD_VERSION ??
+      buildEnv.COMMIT_REF ??
+      buildEnv.VERCEL_GIT_COMMIT_SHA ??
+      "dev",
+    adminToken: adminEnv.ADMIN_TOKEN,
+  };
+}
+
+function parse<T extends z.ZodTypeAny>(
+  schema: T,
+  env: Record<string, string | undefined>,
+): z.infer<T> {
+  const parsed = schema.safeParse(env);
+
+  if (!parsed.success) {
+    throw new ConfigError(parsed.error.issues.map((issue) => issue.message));
+  }
+
+  return parsed.data;
+}
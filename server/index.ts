@@ -1,39 +1,148 @@
 import express from "express";
 import cors from "cors";
 import { handleDemo } from "./routes/demo";
+import { handleCachePurge, requireAdmin } from "./routes/admin";
+import { handleSchemaDiagnostics } from "./routes/diagnostics";
+import { handleHealth, handleReady } from "./routes/health";
 import {
   getCities,
   getWarehouses,
   getLockers,
+  getNearestWarehouses,
+  getAvailability,
+  getWarehouseMatching,
   calculateTariff,
+  calculateAllTariffs,
+  calculateAllTariffsCost,
+  calculateTariffBatch,
+  calculateTariffBatchCost,
   getRegions,
   getRegionCities,
+  getCitySearch,
 } from "./routes/tariffs";
+import { loadConfig } from "./config";
+import { loadDirectory } from "./lib/directory";
+import { createGatewayClient } from "./lib/gateway";
+import { createGatewaySimulator } from "./lib/gatewaySimulator";
+import { createCache } from "./lib/cache";
+import { createSchemaDrift } from "./lib/normalize";
+import { createLogger, requestLogger, setDefaultLogger } from "./lib/logger";
+import { createTokenStore } from "./lib/tokens";
+import { rateLimit } from "./lib/rateLimit";
+import { createServerMetrics, requestMetrics } from "./lib/metrics";
+import { handleMetrics } from "./routes/metrics";
+import { handleDocs, handleOpenApiDocument } from "./routes/docs";
+
+export interface ServerOptions {
+  /** Environment to read configuration from, defaults to process.env */
+  env?: Record<string, string | undefined>;
+}
+
+export function createServer(options: ServerOptions = {}) {
+  // Throws ConfigError when the environment is incomplete
+  const config = loadConfig(options.env ?? process.env);
+  // Throws DirectoryError when server/data/directory.json is inconsistent
+  const directory = loadDirectory();
+
+  const logger = createLogger({ level: config.logging.level });
+  setDefaultLogger(logger);
+  const metrics = createServerMetrics(config.buildVersion);
 
-export function createServer() {
   const app = express();
+  app.locals.config = config;
+  app.locals.logger = logger;
+  app.locals.metrics = metrics;
+  app.locals.directory = directory;
+  app.locals.cache = createCache(logger);
+  app.locals.schemaDrift = createSchemaDrift();
+  app.locals.gateway = createGatewayClient(
+    config.gateway,
+    config.gateway.mode === "simulator"
+      ? createGatewaySimulator(config.gateway.simulator)
+      : fetch,
+    {
+      logger,
+      metrics,
+      schemaDrift: app.locals.schemaDrift,
+      tokenStore: createTokenStore(
+        config.gateway.tokenStore.type,
+        config.gateway.tokenStore.path,
+      ),
+    },
+  );
+
+  // Client IPs come from X-Forwarded-For only behind a known number of proxies
+  app.set("trust proxy", config.rateLimit.trustProxy);
+
+  // Routes of one class share buckets
+  const limit = {
+    calculation: rateLimit("calculation", config.rateLimit),
+    lookup: rateLimit("lookup", config.rateLimit),
+    static: rateLimit("static", config.rateLimit),
+  };
 
   // Middleware
-  app.use(cors());
-  app.use(express.json());
+  app.use(requestLogger(logger));
+  app.use(requestMetrics(metrics));
+  app.use(
+    cors({
+      exposedHeaders: [
+        "X-Request-Id",
+        "Retry-After",
+        "RateLimit-Limit",
+        "RateLimit-Remaining",
+      ],
+    }),
+  );
+  // Batches of several hundred shipments outgrow the 100kb default
+  app.use(express.json({ limit: "1mb" }));
   app.use(express.urlencoded({ extended: true }));
 
   // Example API routes
-  app.get("/api/ping", (_req, res) => {
+  app.get("/api/ping", limit.static, (_req, res) => {
     res.json({ message: "Hello from Express server v2!" });
   });
 
-  app.get("/api/demo", handleDemo);
+  app.get("/api/demo", limit.static, handleDemo);
+
+  // Probes and scraping, never rate limited
+  app.get("/api/health", handleHealth);
+  app.get("/api/ready", handleReady);
+  app.get("/api/metrics", handleMetrics);
 
   // Tariff calculator routes
-  app.get("/api/cities", getCities);
-  app.get("/api/warehouses", getWarehouses);
-  app.get("/api/lockers", getLockers);
-  app.post("/api/calculate-tariff", calculateTariff);
+  app.get("/api/cities", limit.lookup, getCities);
+  app.get("/api/warehouses", limit.lookup, getWarehouses);
+  app.get("/api/warehouses/nearest", limit.lookup, getNearestWarehouses);
+  app.get("/api/lockers", limit.lookup, getLockers);
+  app.get("/api/availability", limit.lookup, getAvailability);
+  app.post("/api/calculate-tariff", limit.calculation, calculateTariff);
+  app.post(
+    "/api/calculate-tariff/all",
+    limit.calculation.weighted(calculateAllTariffsCost),
+    calculateAllTariffs,
+  );
+  app.post(
+    "/api/calculate-tariff/batch",
+    limit.calculation.weighted(calculateTariffBatchCost),
+    calculateTariffBatch,
+  );
 
   // Region-based city selection routes
-  app.get("/api/regions", getRegions);
-  app.get("/api/regions/:regionId/cities", getRegionCities);
+  app.get("/api/regions", limit.static, getRegions);
+  app.get("/api/regions/:regionId/cities", limit.static, getRegionCities);
+  app.get("/api/cities/search", limit.static, getCitySearch);
+
+  // Admin
+  app.post("/api/admin/cache/purge", requireAdmin, handleCachePurge);
+
+  // Diagnostics
+  app.get("/api/diagnostics/schema", limit.static, handleSchemaDiagnostics);
+  app.get("/api/diagnostics/warehouses", limit.lookup, getWarehouseMatching);
+
+  // API documentation
+  app.get("/api/openapi.json", limit.static, handleOpenApiDocument);
+  app.get("/api/docs", limit.static, handleDocs);
 
   return app;
 }
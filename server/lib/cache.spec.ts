@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createCache } from "./cache";
+import { createLogger } from "./logger";
+
+const silent = createLogger({ level: "silent" });
+const policy = { ttlMs: 1000, staleTtlMs: 5000 };
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("createCache", () => {
+  it("should serve fresh entries without calling the loader again", async () => {
+    const cache = createCache(silent);
+    const loader = vi.fn().mockResolvedValue(["a"]);
+
+    expect((await cache.get("key", loader, policy)).status).toBe("MISS");
+    const hit = await cache.get("key", loader, policy);
+
+    expect(hit.status).toBe("HIT");
+    expect(hit.value).toEqual(["a"]);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it("should serve stale entries while refreshing in the background", async () => {
+    const cache = createCache(silent);
+    const loader = vi
+      .fn()
+      .mockResolvedValueOnce(["old"])
+      .mockResolvedValueOnce(["new"]);
+
+    const first = await cache.get("key", loader, policy);
+    vi.advanceTimersByTime(2000);
+
+    const stale = await cache.get("key", loader, policy);
+    expect(stale.status).toBe("STALE");
+    expect(stale.value).toEqual(["old"]);
+
+    await vi.waitFor(() => expect(loader).toHaveBeenCalledTimes(2));
+    const refreshed = await cache.get("key", loader, policy);
+    expect(refreshed.value).toEqual(["new"]);
+    expect(refreshed.etag).not.toBe(first.etag);
+  });
+
+  it("should serve the previous entry when the loader fails", async () => {
+    const cache = createCache(silent);
+    const loader = vi
+      .fn()
+      .mockResolvedValueOnce(["old"])
+      .mockRejectedValueOnce(new Error("gateway down"));
+
+    await cache.get("key", loader, policy);
+    vi.advanceTimersByTime(10000);
+
+    const result = await cache.get("key", loader, policy);
+    expect(result.status).toBe("STALE");
+    expect(result.value).toEqual(["old"]);
+  });
+
+  it("should share one upstream call between concurrent misses", async () => {
+    const cache = createCache(silent);
+    const loader = vi.fn().mockResolvedValue(["a"]);
+
+    await Promise.all([
+      cache.get("key", loader, policy),
+      cache.get("key", loader, policy),
+    ]);
+
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it("should purge one key or everything", async () => {
+    const cache = createCache(silent);
+    const loader = vi.fn().mockResolvedValue([]);
+    await cache.get("a", loader, policy);
+    await cache.get("b", loader, policy);
+
+    expect(cache.purge("a")).toEqual(["a"]);
+    expect(cache.purge()).toEqual(["b"]);
+    expect(cache.ages()).toEqual({});
+  });
+
+  it("should not let a load started before a purge undo it", async () => {
+    const cache = createCache(silent);
+    let resolve: (value: string[]) => void;
+    const loader = vi
+      .fn()
+      .mockImplementationOnce(() => new Promise((r) => (resolve = r)))
+      .mockResolvedValueOnce(["new"]);
+
+    const loading = cache.get("key", loader, policy);
+    expect(cache.purge("key")).toEqual(["key"]);
+    resolve(["old"]);
+    await loading;
+
+    expect(cache.peek("key")).toBeUndefined();
+    expect((await cache.get("key", loader, policy)).value).toEqual(["new"]);
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,139 @@
+import { createHash } from "crypto";
+import { Logger, getLogger } from "./logger";
+
+/**
+ * In-memory TTL cache with stale-while-revalidate.
+ * - Fresh entries (younger than ttlMs) are served as is.
+ * - Stale entries (within staleTtlMs after that) are served immediately
+ *   while a background refresh replaces them.
+ * - When a refresh fails, any previous entry is served instead of the error.
+ */
+
+export interface CachePolicy {
+  ttlMs: number;
+  staleTtlMs: number;
+}
+
+export type CacheStatus = "HIT" | "STALE" | "MISS";
+
+export interface CacheResult<T> {
+  value: T;
+  fetchedAt: number;
+  etag: string;
+  status: CacheStatus;
+}
+
+export interface CacheEntry<T> {
+  value: T;
+  fetchedAt: number;
+  etag: string;
+}
+
+export interface Cache {
+  get<T>(
+    key: string,
+    loader: () => Promise<T>,
+    policy: CachePolicy,
+  ): Promise<CacheResult<T>>;
+  /** Drops one key, or everything when no key is given; returns purged keys */
+  purge(key?: string): string[];
+  /** Age in ms of every cached key */
+  ages(): Record<string, number>;
+  /** The cached entry for a key, however old, without loading it */
+  peek<T>(key: string): CacheEntry<T> | undefined;
+}
+
+export function createCache(logger?: Logger): Cache {
+  const entries = new Map<string, CacheEntry<any>>();
+  const pending = new Map<string, Promise<CacheEntry<any>>>();
+
+  function refresh<T>(
+    key: string,
+    loader: () => Promise<T>,
+  ): Promise<CacheEntry<T>> {
+    // Concurrent misses for one key share a single upstream call
+    if (!pending.has(key)) {
+      // A purge drops the load from `pending`; it then must not write back
+      // data fetched before the purge
+      const isCurrent = () => pending.get(key) === load;
+      const load: Promise<CacheEntry<T>> = loader()
+        .then((value) => {
+          const entry = {
+            value,
+            fetchedAt: Date.now(),
+            etag: computeEtag(value),
+          };
+          if (isCurrent()) entries.set(key, entry);
+          return entry;
+        })
+        .finally(() => {
+          if (isCurrent()) pending.delete(key);
+        });
+      pending.set(key, load);
+    }
+    return pending.get(key)!;
+  }
+
+  return {
+    async get(key, loader, policy) {
+      const entry = entries.get(key);
+      const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+
+      if (entry && age < policy.ttlMs) {
+        return { ...entry, status: "HIT" };
+      }
+
+      if (entry && age < policy.ttlMs + policy.staleTtlMs) {
+        refresh(key, loader).catch((error) => {
+          getLogger(logger).error("Background cache refresh failed", {
+            key,
+            error,
+          });
+        });
+        return { ...entry, status: "STALE" };
+      }
+
+      try {
+        return { ...(await refresh(key, loader)), status: "MISS" };
+      } catch (error) {
+        if (entry) {
+          getLogger(logger).warn("Cache refresh failed, serving stale", {
+            key,
+            error,
+          });
+          return { ...entry, status: "STALE" };
+        }
+        throw error;
+      }
+    },
+
+    purge(key) {
+      const keys = key
+        ? [key].filter((k) => entries.has(k) || pending.has(k))
+        : [...new Set([...entries.keys(), ...pending.keys()])];
+      keys.forEach((k) => {
+        entries.delete(k);
+        pending.delete(k);
+      });
+      return keys;
+    },
+
+    peek(key) {
+      return entries.get(key);
+    },
+
+    ages() {
+      const now = Date.now();
+      return Object.fromEntries(
+        [...entries].map(([key, entry]) => [key, now - entry.fetchedAt]),
+      );
+    },
+  };
+}
+
+function computeEtag(value: unknown): string {
+  const hash = createHash("sha1")
+    .update(JSON.stringify(value))
+    .digest("base64url");
+  return `"${hash}"`;
+}
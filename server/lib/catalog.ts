@@ -0,0 +1,48 @@
+import { Request } from "express";
+import { City, Warehouse } from "@shared/api";
+import { CacheConfig, ServerConfig } from "../config";
+import { Cache, CacheResult } from "./cache";
+import { GatewayClient, getGateway } from "./gateway";
+import { getMetrics } from "./metrics";
+import { NormalizedPage } from "./normalize";
+
+/**
+ * Cached access to the gateway's reference lists.
+ * Anything that needs cities, warehouses or lockers should go through here
+ * so every caller shares the same TTLs and upstream calls.
+ */
+
+export type CatalogKey = keyof CacheConfig;
+
+export interface Catalog {
+  cities: NormalizedPage<City>;
+  warehouses: NormalizedPage<Warehouse>;
+  lockers: NormalizedPage<Warehouse>;
+}
+
+export const CATALOG_KEYS: CatalogKey[] = ["cities", "warehouses", "lockers"];
+
+const loaders: {
+  [K in CatalogKey]: (gateway: GatewayClient) => Promise<Catalog[K]>;
+} = {
+  cities: (gateway) => gateway.getAllCities(),
+  warehouses: (gateway) => gateway.getAllWarehouses("POST_OFFICE"),
+  lockers: (gateway) => gateway.getAllWarehouses("LOCKER"),
+};
+
+export async function loadCatalog<K extends CatalogKey>(
+  req: Request,
+  key: K,
+): Promise<CacheResult<Catalog[K]>> {
+  const cache = req.app.locals.cache as Cache;
+  const config = req.app.locals.config as ServerConfig;
+  const gateway = getGateway(req);
+
+  const result = await cache.get(
+    key,
+    () => loaders[key](gateway),
+    config.cache[key],
+  );
+  getMetrics(req).cacheLookups.inc({ key, status: result.status });
+  return result;
+}
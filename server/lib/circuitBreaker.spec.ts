@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createCircuitBreaker } from "./circuitBreaker";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("createCircuitBreaker", () => {
+  it("should open after the threshold of consecutive failures", () => {
+    const breaker = createCircuitBreaker({ threshold: 2, cooldownMs: 1000 });
+
+    breaker.recordFailure();
+    expect(breaker.state()).toBe("closed");
+    breaker.recordFailure();
+
+    expect(breaker.state()).toBe("open");
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.retryAfterMs()).toBe(1000);
+  });
+
+  it("should reset the failure count on success", () => {
+    const breaker = createCircuitBreaker({ threshold: 2, cooldownMs: 1000 });
+
+    breaker.recordFailure();
+    breaker.recordSuccess();
+    breaker.recordFailure();
+
+    expect(breaker.state()).toBe("closed");
+  });
+
+  it("should let a single trial call through after the cooldown", () => {
+    const breaker = createCircuitBreaker({ threshold: 1, cooldownMs: 1000 });
+    breaker.recordFailure();
+    vi.advanceTimersByTime(1000);
+
+    expect(breaker.state()).toBe("half-open");
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+
+    breaker.recordSuccess();
+    expect(breaker.state()).toBe("closed");
+  });
+
+  it("should tell callers refused during the trial to wait for it", () => {
+    const breaker = createCircuitBreaker({
+      threshold: 1,
+      cooldownMs: 1000,
+      trialTimeoutMs: 5000,
+    });
+    breaker.recordFailure();
+    vi.advanceTimersByTime(1000);
+    breaker.tryAcquire();
+    vi.advanceTimersByTime(2000);
+
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.retryAfterMs()).toBe(3000);
+    vi.advanceTimersByTime(3000);
+    expect(breaker.retryAfterMs()).toBe(1000);
+  });
+
+  it("should reopen when the trial call fails", () => {
+    const breaker = createCircuitBreaker({ threshold: 3, cooldownMs: 1000 });
+    breaker.recordFailure();
+    breaker.recordFailure();
+    breaker.recordFailure();
+    vi.advanceTimersByTime(1000);
+
+    breaker.tryAcquire();
+    breaker.recordFailure();
+
+    expect(breaker.state()).toBe("open");
+  });
+});
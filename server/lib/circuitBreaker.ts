@@ -0,0 +1,86 @@
+/**
+ * Consecutive-failure circuit breaker.
+ * - Closed: calls go through; `threshold` failures in a row open it.
+ * - Open: calls are refused until `cooldownMs` has passed.
+ * - Half-open: a single trial call is let through; its outcome closes the
+ *   circuit or opens it for another cooldown.
+ */
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  threshold: number;
+  cooldownMs: number;
+  /** How long a trial call may take, e.g. the call deadline */
+  trialTimeoutMs?: number;
+}
+
+// Callers refused while a trial call runs wait at least this long
+const MIN_TRIAL_RETRY_AFTER_MS = 1000;
+
+export interface CircuitBreaker {
+  state(): CircuitState;
+  /** Whether a call may start now; callers must then record its outcome */
+  tryAcquire(): boolean;
+  recordSuccess(): void;
+  recordFailure(): void;
+  /**
+   * Time until a call may be allowed: the rest of the cooldown while open,
+   * the expected rest of the trial call while one runs, 0 otherwise
+   */
+  retryAfterMs(): number;
+}
+
+export function createCircuitBreaker({
+  threshold,
+  cooldownMs,
+  trialTimeoutMs = 0,
+}: CircuitBreakerOptions): CircuitBreaker {
+  let failures = 0;
+  let openedAt: number | null = null;
+  let trialInFlight = false;
+  let trialStartedAt = 0;
+
+  function state(): CircuitState {
+    if (openedAt === null) return "closed";
+    return Date.now() - openedAt >= cooldownMs ? "half-open" : "open";
+  }
+
+  return {
+    state,
+
+    tryAcquire() {
+      const current = state();
+      if (current === "closed") return true;
+      if (current === "open" || trialInFlight) return false;
+
+      trialInFlight = true;
+      trialStartedAt = Date.now();
+      return true;
+    },
+
+    recordSuccess() {
+      failures = 0;
+      openedAt = null;
+      trialInFlight = false;
+    },
+
+    recordFailure() {
+      failures++;
+      if (trialInFlight || failures >= threshold) {
+        openedAt = Date.now();
+      }
+      trialInFlight = false;
+    },
+
+    retryAfterMs() {
+      const now = Date.now();
+      if (state() === "open") return cooldownMs - (now - openedAt!);
+      if (!trialInFlight) return 0;
+      return Math.max(
+        MIN_TRIAL_RETRY_AFTER_MS,
+        trialStartedAt + trialTimeoutMs - now,
+      );
+    },
+  };
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect } from "vitest";
+import { Region, RegionCity } from "@shared/api";
+import { searchCities } from "./citySearch";
+
+const regions: Region[] = [
+  {
+    id: "andijon-viloyati",
+    names: {
+      uz: "Andijon viloyati",
+      ru: "Андижанская область",
+      en: "Andijan region",
+    },
+  },
+  {
+    id: "fargona-viloyati",
+    names: {
+      uz: "Fargʻona viloyati",
+      ru: "Ферганская область",
+      en: "Fergana region",
+    },
+  },
+  {
+    id: "toshkent-shahri",
+    names: { uz: "Toshkent shahri", ru: "Город Ташкент", en: "Tashkent city" },
+  },
+  {
+    id: "sirdaryo-viloyati",
+    names: {
+      uz: "Sirdaryo viloyati",
+      ru: "Сырдарьинская область",
+      en: "Syrdarya region",
+    },
+  },
+];
+
+const cities: RegionCity[] = [
+  {
+    shipox_id: 1,
+    region_id: "andijon-viloyati",
+    names: {
+      uz: "Andijon tumani",
+      ru: "Андижанский район",
+      en: "Andijan district",
+    },
+  },
+  {
+    shipox_id: 2,
+    region_id: "andijon-viloyati",
+    names: { uz: "Andijon shahri", ru: "город Андижан", en: "Andijan city" },
+  },
+  {
+    shipox_id: 3,
+    region_id: "fargona-viloyati",
+    names: { uz: "Qoʻqon shahri", ru: "город Коканд", en: "Kokand city" },
+  },
+  {
+    shipox_id: 4,
+    region_id: "fargona-viloyati",
+    names: {
+      uz: "Yangi Margʻilon",
+      ru: "Новый Маргилан",
+      en: "New Margilan",
+    },
+  },
+  {
+    shipox_id: 5,
+    region_id: "fargona-viloyati",
+    names: {
+      uz: "Fargʻona tumani",
+      ru: "Ферганский район",
+      en: "Fergana district",
+    },
+  },
+  {
+    shipox_id: 6,
+    region_id: "toshkent-shahri",
+    names: { uz: "Toshkent shahri", ru: "город Ташкент", en: "Tashkent city" },
+  },
+  {
+    shipox_id: 7,
+    region_id: "sirdaryo-viloyati",
+    names: { uz: "Guliston shahri", ru: "город Гулистан", en: "Gulistan city" },
+  },
+];
+
+const search = (q: string, lang: "uz" | "ru" | "en" = "ru", limit = 10) =>
+  searchCities(cities, regions, { q, lang, limit }).map(
+    ({ shipox_id, match }) => [shipox_id, match],
+  );
+
+describe("searchCities", () => {
+  it("should rank the shorter name first among prefix matches", () => {
+    expect(search("анд")).toEqual([
+      [2, "prefix"],
+      [1, "prefix"],
+    ]);
+  });
+
+  it("should search every language and ignore administrative words", () => {
+    expect(search("kokand")).toEqual([[3, "prefix"]]);
+    expect(search("qoʻqon")).toEqual([[3, "prefix"]]);
+    expect(search("город коканд")).toEqual([[3, "prefix"]]);
+  });
+
+  it("should read a lone first letter as the start of a name", () => {
+    // "t" and "g" alone are not "tumani" and "shahri" abbreviated
+    const prefixMatches = (q: string, lang?: "uz" | "ru") =>
+      search(q, lang).filter(([, match]) => match === "prefix");
+
+    expect(prefixMatches("t", "uz")).toEqual([[6, "prefix"]]);
+    expect(prefixMatches("т")).toEqual([[6, "prefix"]]);
+    expect(prefixMatches("g", "uz")).toEqual([[7, "prefix"]]);
+    expect(prefixMatches("г")).toEqual([[7, "prefix"]]);
+  });
+
+  it("should spell out abbreviations before the word being typed", () => {
+    expect(search("г. Коканд")).toEqual([[3, "prefix"]]);
+    expect(search("Andijon t", "uz")[0]).toEqual([1, "prefix"]);
+  });
+
+  it("should rank prefix over word over fuzzy matches", () => {
+    expect(search("марг")).toEqual([[4, "word"]]);
+    expect(search("andijin", "en")).toEqual([
+      [2, "fuzzy"],
+      [1, "fuzzy"],
+    ]);
+    expect(search("margilan")).toEqual([[4, "word"]]);
+    expect(search("xyz")).toEqual([]);
+  });
+
+  it("should list a matching region's cities after direct matches", () => {
+    expect(search("Fargʻona viloyati", "uz")).toEqual([
+      [3, "region"],
+      [5, "region"],
+      [4, "region"],
+    ]);
+    expect(search("fergana", "en")).toEqual([
+      [5, "prefix"],
+      [3, "region"],
+      [4, "region"],
+    ]);
+  });
+
+  it("should include the region and respect the limit", () => {
+    const [result] = searchCities(cities, regions, {
+      q: "kok",
+      lang: "en",
+      limit: 1,
+    });
+
+    expect(result).toEqual({
+      ...cities[2],
+      region: regions[1],
+      match: "prefix",
+    });
+    expect(search("andijon", "uz", 1)).toHaveLength(1);
+  });
+});
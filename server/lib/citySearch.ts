@@ -0,0 +1,133 @@
+import {
+  CITY_NAME_LANGUAGES,
+  CityNameLanguage,
+  CitySearchMatch,
+  CitySearchQuery,
+  CitySearchResult,
+  Region,
+  RegionCity,
+} from "@shared/api";
+import { searchKey } from "@shared/transliteration";
+
+/**
+ * Ranks region cities against what the user typed, across the uz, ru and
+ * en names. A name starting with the query beats one with a word starting
+ * with it, which beats a typo-tolerant (fuzzy) match. Names and query are
+ * compared by their shared/transliteration key, so script, apostrophes and
+ * abbreviations do not matter; words like "shahri" or "район" are ignored
+ * when looking for a prefix. Cities whose region matches come after every
+ * city matched by its own name, so "Samarqand viloyati" lists that region.
+ */
+
+const MATCH_RANK: Record<CitySearchMatch, number> = {
+  prefix: 0,
+  word: 1,
+  fuzzy: 2,
+  region: 3,
+};
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Typos tolerated in a query of this length
+const allowedTypos = (query: string) =>
+  query.length < 4 ? 0 : query.length < 7 ? 1 : 2;
+
+function matchName(name: string, query: string): CitySearchMatch | null {
+  const full = searchKey(name);
+  const words = full.split(" ");
+  const core = searchKey(name, ["city", "district", "region"]);
+
+  if (core.startsWith(query) || full.startsWith(query)) return "prefix";
+  if (` ${full}`.includes(` ${query}`)) return "word";
+
+  const typos = allowedTypos(query);
+  if (typos === 0) return null;
+  if (full.includes(query)) return "fuzzy";
+  // The start of a word, give or take a letter; the first one must be right
+  const close = words.some(
+    (word) =>
+      word[0] === query[0] &&
+      [-1, 0, 1].some(
+        (delta) =>
+          editDistance(query, word.slice(0, query.length + delta)) <= typos,
+      ),
+  );
+  return close ? "fuzzy" : null;
+}
+
+interface NameMatch {
+  language: CityNameLanguage;
+  match: CitySearchMatch;
+}
+
+// The best match across languages, the requested one winning ties
+function matchNames(
+  names: Record<CityNameLanguage, string>,
+  query: string,
+  lang: CityNameLanguage,
+): NameMatch | null {
+  const matches = CITY_NAME_LANGUAGES.map((language) => ({
+    language,
+    match: matchName(names[language], query),
+  })).filter(({ match }) => match !== null);
+  if (matches.length === 0) return null;
+
+  return matches.reduce((a, b) =>
+    MATCH_RANK[b.match] < MATCH_RANK[a.match] ||
+    (MATCH_RANK[b.match] === MATCH_RANK[a.match] && b.language === lang)
+      ? b
+      : a,
+  );
+}
+
+export function searchCities(
+  cities: RegionCity[],
+  regions: Region[],
+  { q, lang, limit }: CitySearchQuery,
+): CitySearchResult[] {
+  const query = searchKey(q, [], { typing: true });
+  if (!query) return [];
+  const regionsById = new Map(regions.map((region) => [region.id, region]));
+  const regionMatches = new Map(
+    regions.flatMap((region) => {
+      const match = matchNames(region.names, query, lang);
+      return match ? [[region.id, match] as const] : [];
+    }),
+  );
+
+  const ranked = cities.flatMap((city) => {
+    const region = regionsById.get(city.region_id);
+    const regionMatch = regionMatches.get(city.region_id);
+    const best: NameMatch | null =
+      matchNames(city.names, query, lang) ??
+      (regionMatch ? { ...regionMatch, match: "region" } : null);
+    if (!region || !best) return [];
+
+    return [{ city, region, best }];
+  });
+
+  return ranked
+    .sort(
+      (a, b) =>
+        MATCH_RANK[a.best.match] - MATCH_RANK[b.best.match] ||
+        Number(b.best.language === lang) - Number(a.best.language === lang) ||
+        a.city.names[lang].length - b.city.names[lang].length ||
+        a.city.names[lang].localeCompare(b.city.names[lang], lang),
+    )
+    .slice(0, limit)
+    .map(({ city, region, best }) => ({ ...city, region, match: best.match }));
+}
@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { mapWithConcurrency } from "./concurrency";
+
+describe("mapWithConcurrency", () => {
+  it("should keep input order and respect the limit", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+
+    const results = await mapWithConcurrency(
+      [30, 10, 20, 5, 15],
+      2,
+      async (delay, index) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, delay));
+        inFlight--;
+        return index;
+      },
+    );
+
+    expect(results).toEqual([0, 1, 2, 3, 4]);
+    expect(maxInFlight).toBe(2);
+  });
+
+  it("should handle an empty list", async () => {
+    expect(await mapWithConcurrency([], 3, async () => 1)).toEqual([]);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { DirectoryError, loadDirectory } from "./directory";
+
+const region = {
+  id: "xorazm-viloyati",
+  names: {
+    uz: "Xorazm viloyati",
+    ru: "Хорезмская область",
+    en: "Khorezm Region",
+  },
+};
+
+const city = {
+  shipox_id: 263947327,
+  region_id: "xorazm-viloyati",
+  names: {
+    uz: "Yangiariq tumani",
+    ru: "Янгиарыкский район",
+    en: "Yangiaryk district",
+  },
+};
+
+const issuesOf = (data: unknown) => {
+  try {
+    loadDirectory(data);
+  } catch (error) {
+    expect(error).toBeInstanceOf(DirectoryError);
+    return (error as DirectoryError).issues;
+  }
+  throw new Error("Expected the directory to be rejected");
+};
+
+describe("loadDirectory", () => {
+  it("should load the bundled directory", () => {
+    const directory = loadDirectory();
+
+    expect(directory.version).toMatch(/\S/);
+    expect(directory.regions).toHaveLength(14);
+    expect(directory.cities.length).toBeGreaterThan(150);
+    expect(
+      directory.cities.find(({ shipox_id }) => shipox_id === 263947327),
+    ).toEqual(city);
+  });
+
+  it("should require all three names", () => {
+    expect(
+      issuesOf({
+        version: "1",
+        regions: [region],
+        cities: [{ ...city, names: { ...city.names, uz: " ", ru: undefined } }],
+      }),
+    ).toEqual([
+      "cities.0.names.uz: uz name is missing",
+      "cities.0.names.ru: Required",
+    ]);
+  });
+
+  it("should reject duplicate ids and unknown regions", () => {
+    expect(
+      issuesOf({
+        version: "1",
+        regions: [region, region],
+        cities: [city, city, { ...city, shipox_id: 1, region_id: "nowhere" }],
+      }),
+    ).toEqual([
+      "region id xorazm-viloyati is used more than once",
+      "shipox_id 263947327 is used more than once",
+      "shipox_id 1 has unknown region_id nowhere",
+    ]);
+  });
+
+  it("should require a version", () => {
+    expect(issuesOf({ regions: [region], cities: [city] })).toEqual([
+      "version: Required",
+    ]);
+  });
+});
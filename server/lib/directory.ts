@@ -0,0 +1,91 @@
+import { Request } from "express";
+import { z } from "zod";
+import { Region, RegionCity } from "@shared/api";
+import directoryData from "../data/directory.json";
+
+/**
+ * The region and city directory behind /api/regions and /api/cities/search.
+ * It lives in server/data/directory.json, versioned as a whole: bump
+ * `version` with every change so clients can tell their copy is stale.
+ * The file is validated once at startup and the server refuses to start
+ * on a broken directory rather than serve it.
+ */
+
+export interface Directory {
+  version: string;
+  regions: Region[];
+  cities: RegionCity[];
+}
+
+export class DirectoryError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid region and city directory:\n  - ${issues.join("\n  - ")}`);
+    this.name = "DirectoryError";
+  }
+}
+
+const namesSchema = z.object({
+  uz: z.string().trim().min(1, "uz name is missing"),
+  ru: z.string().trim().min(1, "ru name is missing"),
+  en: z.string().trim().min(1, "en name is missing"),
+});
+
+const directorySchema = z.object({
+  version: z.string().trim().min(1, "version is missing"),
+  regions: z
+    .array(z.object({ id: z.string().min(1), names: namesSchema }))
+    .min(1, "no regions"),
+  cities: z
+    .array(
+      z.object({
+        shipox_id: z.number().int().positive(),
+        region_id: z.string().min(1),
+        names: namesSchema,
+      }),
+    )
+    .min(1, "no cities"),
+});
+
+// Ids that appear more than once
+function findDuplicates<T>(ids: T[]): T[] {
+  const seen = new Set<T>();
+  return [...new Set(ids.filter((id) => seen.has(id) || !seen.add(id)))];
+}
+
+/** Validates a directory, directory.json unless given one */
+export function loadDirectory(data: unknown = directoryData): Directory {
+  const parsed = directorySchema.safeParse(data);
+  if (!parsed.success) {
+    throw new DirectoryError(
+      parsed.error.issues.map(
+        (issue) => `${issue.path.join(".")}: ${issue.message}`,
+      ),
+    );
+  }
+
+  const { regions, cities } = parsed.data;
+  const regionIds = new Set(regions.map((region) => region.id));
+  const issues = [
+    ...findDuplicates(regions.map((region) => region.id)).map(
+      (id) => `region id ${id} is used more than once`,
+    ),
+    ...findDuplicates(cities.map((city) => city.shipox_id)).map(
+      (id) => `shipox_id ${id} is used more than once`,
+    ),
+    ...cities
+      .filter((city) => !regionIds.has(city.region_id))
+      .map(
+        (city) =>
+          `shipox_id ${city.shipox_id} has unknown region_id ${city.region_id}`,
+      ),
+  ];
+  if (issues.length > 0) {
+    throw new DirectoryError(issues);
+  }
+
+  return parsed.data as Directory;
+}
+
+export function getDirectory(req: Request): Directory {
+  return req.app.locals.directory as Directory;
+}
@@ -0,0 +1,131 @@
+import { Request } from "express";
+import {
+  City,
+  ExcludedTariff,
+  RouteServices,
+  TARIFF_TYPES,
+  TariffAvailability,
+  TariffExclusionReason,
+  TariffType,
+  Warehouse,
+  WarehouseCityMatch,
+  findTariffExclusion,
+} from "@shared/api";
+import { matchWarehouses } from "@shared/cityMatching";
+import { loadCatalog } from "./catalog";
+import { getLogger } from "./logger";
+
+/**
+ * Decides which tariff types can serve a pair of cities, based on where
+ * FARGO has offices and lockers. Reads the cached catalog only; offices
+ * and lockers are linked to cities by shared/cityMatching.
+ */
+
+export interface CityServices {
+  city: City;
+  hasOffice: boolean;
+  hasLocker: boolean;
+}
+
+// Matches only change when a catalog is refreshed, which replaces its list
+const matchCache = new WeakMap<
+  Warehouse[],
+  { cities: City[]; matches: WarehouseCityMatch[] }
+>();
+
+/** Links each office or locker to a catalog city */
+export function getWarehouseMatches(
+  points: Warehouse[],
+  cities: City[],
+): WarehouseCityMatch[] {
+  const cached = matchCache.get(points);
+  if (cached?.cities === cities) return cached.matches;
+
+  const matches = matchWarehouses(points, cities);
+  const ambiguous = matches.filter((match) => match.candidates.length > 0);
+  if (ambiguous.length > 0) {
+    getLogger().warn("Ambiguous warehouse city matches", {
+      count: ambiguous.length,
+      warehouseIds: ambiguous.map((match) => match.warehouseId),
+    });
+  }
+  matchCache.set(points, { cities, matches });
+  return matches;
+}
+
+function servesCity(points: Warehouse[], cities: City[], city: City): boolean {
+  return getWarehouseMatches(points, cities).some(
+    (match) => match.cityId === city.id,
+  );
+}
+
+/** Resolves a shipox_id to its city and services, or null when unknown */
+export async function getCityServices(
+  req: Request,
+  cityId: number,
+): Promise<CityServices | null> {
+  const [cities, warehouses, lockers] = await Promise.all([
+    loadCatalog(req, "cities"),
+    loadCatalog(req, "warehouses"),
+    loadCatalog(req, "lockers"),
+  ]);
+
+  const city = cities.value.data.find((candidate) => candidate.id === cityId);
+  if (!city) return null;
+
+  return {
+    city,
+    hasOffice: servesCity(warehouses.value.data, cities.value.data, city),
+    hasLocker: servesCity(lockers.value.data, cities.value.data, city),
+  };
+}
+
+const EXCLUSION_DESCRIPTIONS: Record<TariffExclusionReason, string> = {
+  NO_ORIGIN_OFFICE: "needs an office in the origin city",
+  NO_DESTINATION_OFFICE: "needs an office in the destination city",
+  NO_DESTINATION_LOCKER: "needs a locker in the destination city",
+};
+
+/** Human-readable reason, for error details */
+export function describeExclusion(
+  type: TariffType,
+  reason: TariffExclusionReason,
+): string {
+  return `${type} ${EXCLUSION_DESCRIPTIONS[reason]}`;
+}
+
+function toRouteServices(
+  origin: CityServices | null,
+  destination: CityServices | null,
+): RouteServices {
+  return {
+    originOffice: origin?.hasOffice,
+    destinationOffice: destination?.hasOffice,
+    destinationLocker: destination?.hasLocker,
+  };
+}
+
+/** Tariff types that cannot run between the two cities, with the reason */
+export function findExcludedTariffs(
+  origin: CityServices | null,
+  destination: CityServices | null,
+): ExcludedTariff[] {
+  return getTariffAvailability(origin, destination)
+    .filter((entry) => !entry.available)
+    .map(({ tariff_type, reason }) => ({ tariff_type, reason }));
+}
+
+/** Every tariff type with whether it can run between the two cities */
+export function getTariffAvailability(
+  origin: CityServices | null,
+  destination: CityServices | null,
+): TariffAvailability[] {
+  const services = toRouteServices(origin, destination);
+
+  return TARIFF_TYPES.map((tariff_type) => {
+    const reason = findTariffExclusion(tariff_type, services);
+    return reason
+      ? { tariff_type, available: false, reason }
+      : { tariff_type, available: true };
+  });
+}
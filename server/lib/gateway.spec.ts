@@ -0,0 +1,257 @@
+import { describe, it, expect, vi } from "vitest";
+import { loadConfig } from "../config";
+import {
+  GatewayTimeoutError,
+  GatewayUnavailableError,
+  createGatewayClient,
+} from "./gateway";
+import { createGatewaySimulator } from "./gatewaySimulator";
+import citiesFixture from "../fixtures/cities.json";
+import { createLogger } from "./logger";
+import { createMemoryTokenStore, tokenKey } from "./tokens";
+
+const silent = createLogger({ level: "silent" });
+
+function simulatorConfig(env: Record<string, string> = {}) {
+  return loadConfig({
+    FARGO_GATEWAY_MODE: "simulator",
+    FARGO_RETRY_DELAY_MS: "0",
+    ...env,
+  }).gateway;
+}
+
+// Wraps the simulator so tests can fail chosen calls
+function faultyGateway(
+  config: ReturnType<typeof simulatorConfig>,
+  fault: (path: string, call: number) => Response | null,
+) {
+  const simulator = createGatewaySimulator(config.simulator);
+  const calls: string[] = [];
+  const fetchImpl = vi.fn(async (input: string, init?: RequestInit) => {
+    const path = new URL(input).pathname;
+    calls.push(path);
+    return fault(path, calls.length) ?? simulator(input, init);
+  });
+  return {
+    client: createGatewayClient(config, fetchImpl, { logger: silent }),
+    calls,
+  };
+}
+
+const serverError = () => new Response("down", { status: 500 });
+
+describe("createGatewayClient", () => {
+  it("should time upstream calls without logging credentials or queries", async () => {
+    const gateway = simulatorConfig();
+    const lines: string[] = [];
+    const client = createGatewayClient(
+      gateway,
+      createGatewaySimulator(gateway.simulator),
+      {
+        logger: createLogger({
+          level: "debug",
+          write: (line) => lines.push(line),
+        }),
+      },
+    );
+
+    const token = await client.getToken();
+    await client.getCities({ page: 0, size: 10 });
+
+    const calls = lines
+      .map((line) => JSON.parse(line))
+      .filter((entry) => entry.msg === "Upstream call");
+    expect(calls).toEqual([
+      expect.objectContaining({
+        method: "POST",
+        path: "/api/v1/authenticate",
+        status: 200,
+        durationMs: expect.any(Number),
+      }),
+      expect.objectContaining({ method: "GET", status: 200 }),
+    ]);
+    expect(calls[1].path).not.toContain("?");
+
+    const output = lines.join("\n");
+    expect(output).not.toContain(token);
+    expect(output).not.toContain(gateway.password);
+  });
+
+  it("should report the upstream total and warn when paging is cut short", async () => {
+    const gateway = simulatorConfig({ FARGO_PAGE_SIZE: "1" });
+    const [city] = citiesFixture;
+    const lines: string[] = [];
+    const fetchImpl = async (input: string, init?: RequestInit) => {
+      const url = new URL(input);
+      if (url.pathname !== "/api/v2/cities") {
+        return createGatewaySimulator(gateway.simulator)(input, init);
+      }
+      const number = Number(url.searchParams.get("page"));
+      return new Response(
+        JSON.stringify({
+          data: [{ ...city, id: number + 1 }],
+          totalElements: 150,
+          totalPages: 150,
+          last: false,
+          number,
+        }),
+        { headers: { "Content-Type": "application/json" } },
+      );
+    };
+    const client = createGatewayClient(gateway, fetchImpl, {
+      logger: createLogger({
+        level: "warn",
+        write: (line) => lines.push(line),
+      }),
+    });
+
+    const cities = await client.getAllCities();
+
+    expect(cities.data).toHaveLength(100);
+    expect(cities.totalElements).toBe(150);
+    expect(lines.map((line) => JSON.parse(line))).toContainEqual(
+      expect.objectContaining({
+        level: "warn",
+        msg: "Stopped paging at the page limit",
+        records: 100,
+        totalElements: 150,
+      }),
+    );
+  });
+
+  it("should retry GETs that fail with a 5xx", async () => {
+    const { client, calls } = faultyGateway(simulatorConfig(), (path, call) =>
+      path === "/api/v2/cities" && call < 4 ? serverError() : null,
+    );
+
+    const cities = await client.getCities({ page: 0, size: 10 });
+
+    expect(cities.data.length).toBeGreaterThan(0);
+    expect(calls).toEqual([
+      "/api/v1/authenticate",
+      "/api/v2/cities",
+      "/api/v2/cities",
+      "/api/v2/cities",
+    ]);
+  });
+
+  it("should give up after the configured retries", async () => {
+    const { client, calls } = faultyGateway(
+      simulatorConfig({ FARGO_RETRIES: "1" }),
+      (path) => (path === "/api/v2/cities" ? serverError() : null),
+    );
+
+    await expect(client.getCities()).rejects.toMatchObject({ status: 500 });
+    expect(calls.filter((path) => path === "/api/v2/cities")).toHaveLength(2);
+  });
+
+  it("should not retry authentication", async () => {
+    const { client, calls } = faultyGateway(simulatorConfig(), serverError);
+
+    await expect(client.getToken()).rejects.toMatchObject({ status: 500 });
+    expect(calls).toEqual(["/api/v1/authenticate"]);
+  });
+
+  it("should refresh the token once when a call is rejected with 401", async () => {
+    const { client, calls } = faultyGateway(simulatorConfig(), (path, call) =>
+      call === 2 ? new Response("expired", { status: 401 }) : null,
+    );
+
+    await client.getCities({ page: 0, size: 10 });
+
+    expect(calls).toEqual([
+      "/api/v1/authenticate",
+      "/api/v2/cities",
+      "/api/v1/authenticate",
+      "/api/v2/cities",
+    ]);
+  });
+
+  it("should not refresh the token more than once per call", async () => {
+    const { client, calls } = faultyGateway(simulatorConfig(), (path) =>
+      path === "/api/v2/cities" ? new Response("no", { status: 401 }) : null,
+    );
+
+    await expect(client.getCities()).rejects.toMatchObject({ status: 401 });
+    expect(
+      calls.filter((path) => path === "/api/v1/authenticate"),
+    ).toHaveLength(2);
+  });
+
+  it("should time out calls that take longer than the deadline", async () => {
+    const gateway = simulatorConfig({
+      FARGO_SIMULATOR_SCENARIO: "slow",
+      FARGO_SIMULATOR_DELAY_MS: "1000",
+      FARGO_TIMEOUT_MS: "20",
+    });
+    const client = createGatewayClient(
+      gateway,
+      createGatewaySimulator(gateway.simulator),
+      { logger: silent },
+    );
+
+    await expect(client.getToken()).rejects.toBeInstanceOf(GatewayTimeoutError);
+  });
+
+  it("should stop calling the gateway while the circuit is open", async () => {
+    const { client, calls } = faultyGateway(
+      simulatorConfig({ FARGO_BREAKER_THRESHOLD: "2" }),
+      serverError,
+    );
+
+    await expect(client.getToken()).rejects.toMatchObject({ status: 500 });
+    await expect(client.getToken()).rejects.toMatchObject({ status: 500 });
+    await expect(client.getToken()).rejects.toBeInstanceOf(
+      GatewayUnavailableError,
+    );
+
+    expect(calls).toHaveLength(2);
+    expect(client.status()).toMatchObject({
+      circuit: "open",
+      lastSuccessAt: null,
+      lastError: "/api/v1/authenticate answered 500",
+    });
+  });
+
+  it("should reuse a token another instance stored", async () => {
+    const gateway = simulatorConfig();
+    const tokenStore = createMemoryTokenStore();
+    const shared = (calls: string[]) =>
+      createGatewayClient(
+        gateway,
+        async (input: string, init?: RequestInit) => {
+          calls.push(new URL(input).pathname);
+          return createGatewaySimulator(gateway.simulator)(input, init);
+        },
+        { logger: silent, tokenStore },
+      );
+    const firstCalls: string[] = [];
+    const secondCalls: string[] = [];
+
+    const token = await shared(firstCalls).getToken();
+
+    expect(await shared(secondCalls).getToken()).toBe(token);
+    expect(firstCalls).toEqual(["/api/v1/authenticate"]);
+    expect(secondCalls).toEqual([]);
+  });
+
+  it("should keep the token for the lifetime the gateway reports", async () => {
+    const gateway = simulatorConfig();
+    const tokenStore = createMemoryTokenStore();
+    const client = createGatewayClient(
+      gateway,
+      createGatewaySimulator(gateway.simulator),
+      { logger: silent, tokenStore },
+    );
+
+    const startedAt = Date.now();
+    await client.getToken();
+    const stored = await tokenStore.get(
+      tokenKey(gateway.baseUrl, gateway.username),
+    );
+
+    // The authenticate fixture reports expires_in: 21600
+    expect(stored.expiresAt - startedAt).toBeGreaterThanOrEqual(21600_000);
+    expect(stored.expiresAt - startedAt).toBeLessThan(21601_000);
+  });
+});
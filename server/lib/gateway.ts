@@ -0,0 +1,586 @@
+import { Request } from "express";
+import {
+  City,
+  TariffPrice,
+  TariffType,
+  Warehouse,
+  WarehouseType,
+} from "@shared/api";
+import { GatewayConfig } from "../config";
+import { CircuitState, createCircuitBreaker } from "./circuitBreaker";
+import { mapWithConcurrency } from "./concurrency";
+import { Logger, getLogger } from "./logger";
+import { ServerMetrics } from "./metrics";
+import {
+  StoredToken,
+  TokenStore,
+  createMemoryTokenStore,
+  issueToken,
+  tokenKey,
+} from "./tokens";
+import {
+  NormalizedPage,
+  SchemaDrift,
+  createSchemaDrift,
+  normalizeAuthResponse,
+  normalizeCities,
+  normalizePrices,
+  normalizeWarehouses,
+} from "./normalize";
+
+/**
+ * Typed client for the FARGO gateway.
+ * Owns authentication and token caching so route handlers only deal
+ * with query parameters and response payloads.
+ */
+
+export interface PageQuery {
+  page?: number;
+  size?: number;
+}
+
+export interface PriceQuery {
+  from_latitude: number;
+  from_longitude: number;
+  to_latitude: number;
+  to_longitude: number;
+  /** Chargeable weight, kg */
+  weight: number;
+  /** Parcel dimensions in cm; a flat envelope is assumed when omitted */
+  length?: number;
+  width?: number;
+  height?: number;
+  courier_type: TariffType;
+}
+
+export interface GatewayStatus {
+  circuit: CircuitState;
+  /** Epoch ms of the last call the gateway answered, 5xx aside */
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  lastError: string | null;
+  /** Epoch ms; null before the first authentication */
+  tokenExpiresAt: number | null;
+  tokenValid: boolean;
+}
+
+export interface GatewayClient {
+  readonly config: GatewayConfig;
+  getToken(): Promise<string>;
+  /** Outcome of recent calls and the current token, without calling out */
+  status(): GatewayStatus;
+  get<T = any>(
+    path: string,
+    params?: Record<string, string>,
+    headers?: Record<string, string>,
+  ): Promise<T>;
+  getPrices(query: PriceQuery): Promise<TariffPrice[]>;
+  getCities(page?: PageQuery): Promise<NormalizedPage<City>>;
+  getWarehouses(
+    type: WarehouseType,
+    page?: PageQuery,
+  ): Promise<NormalizedPage<Warehouse>>;
+  /** Every page of cities, merged */
+  getAllCities(): Promise<NormalizedPage<City>>;
+  /** Every page of warehouses of one type, merged */
+  getAllWarehouses(type: WarehouseType): Promise<NormalizedPage<Warehouse>>;
+}
+
+export class GatewayError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    /** The gateway's own explanation, when its error body has one */
+    public readonly upstreamMessage?: string,
+  ) {
+    super(message);
+    this.name = "GatewayError";
+  }
+}
+
+/** The gateway did not answer within FARGO_TIMEOUT_MS */
+export class GatewayTimeoutError extends GatewayError {
+  constructor(path: string, timeoutMs: number) {
+    super(`Gateway request ${path} timed out after ${timeoutMs} ms`);
+    this.name = "GatewayTimeoutError";
+  }
+}
+
+/** Refused without calling the gateway because the circuit breaker is open */
+export class GatewayUnavailableError extends GatewayError {
+  constructor(public readonly retryAfterMs: number) {
+    super("Gateway is unavailable after repeated failures");
+    this.name = "GatewayUnavailableError";
+  }
+}
+
+// Stop following pages past this point in case the gateway never reports `last`
+const MAX_PAGES = 100;
+
+interface SendOptions {
+  query?: string;
+  /** Attempts after the first one, for idempotent calls only */
+  retries?: number;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Timeouts, network errors and 5xx responses count against the gateway
+const isUpstreamFailure = (status: number) => status >= 500;
+
+export interface GatewayClientOptions {
+  logger?: Logger;
+  /** Shares tokens across instances; defaults to this process's memory */
+  tokenStore?: TokenStore;
+  metrics?: ServerMetrics;
+  /** Where payload schema drift is counted; defaults to this client alone */
+  schemaDrift?: SchemaDrift;
+}
+
+export function createGatewayClient(
+  config: GatewayConfig,
+  fetchImpl: typeof fetch = fetch,
+  {
+    logger,
+    tokenStore = createMemoryTokenStore(),
+    metrics,
+    schemaDrift = createSchemaDrift(),
+  }: GatewayClientOptions = {},
+): GatewayClient {
+  const storeKey = tokenKey(config.baseUrl, config.username);
+  let current: StoredToken | null = null;
+  let refreshPromise: Promise<string> | null = null;
+  let lastSuccessAt: number | null = null;
+  let lastFailureAt: number | null = null;
+  let lastError: string | null = null;
+  const breaker = createCircuitBreaker({
+    threshold: config.breakerThreshold,
+    cooldownMs: config.breakerCooldownMs,
+    trialTimeoutMs: config.timeoutMs,
+  });
+
+  /**
+   * One attempt under the deadline, body included, so a gateway that stalls
+   * mid-response cannot hold the request open. Logs method, path (never the
+   * query), status and duration.
+   */
+  async function attempt(
+    path: string,
+    init: RequestInit,
+    query: string,
+  ): Promise<Response> {
+    const log = getLogger(logger);
+    const fields = { upstream: "fargo", method: init.method, path };
+    const startedAt = performance.now();
+    const elapsed = () => Math.round(performance.now() - startedAt);
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout>;
+
+    // Raced as well as aborted, for fetch implementations that ignore signals
+    const deadline = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        controller.abort();
+        reject(new GatewayTimeoutError(path, config.timeoutMs));
+      }, config.timeoutMs);
+    });
+
+    try {
+      const response = await Promise.race([
+        fetchImpl(`${config.baseUrl}${path}${query ? `?${query}` : ""}`, {
+          ...init,
+          signal: controller.signal,
+        }).then(async (response) => {
+          const body = await response.text();
+          return new Response(body, {
+            status: response.status,
+            statusText: response.statusText,
+            headers: response.headers,
+          });
+        }),
+        deadline,
+      ]);
+      log.info("Upstream call", {
+        ...fields,
+        status: response.status,
+        durationMs: elapsed(),
+      });
+      metrics?.upstreamRequests.inc({
+        endpoint: path,
+        status: response.status.toString(),
+      });
+      metrics?.upstreamDuration.observe({ endpoint: path }, elapsed() / 1000);
+      if (isUpstreamFailure(response.status)) {
+        metrics?.upstreamErrors.inc({ endpoint: path, reason: "server_error" });
+      }
+      return response;
+    } catch (error) {
+      metrics?.upstreamErrors.inc({
+        endpoint: path,
+        reason: error instanceof GatewayTimeoutError ? "timeout" : "network",
+      });
+      log.error("Upstream call failed", {
+        ...fields,
+        durationMs: elapsed(),
+        error,
+      });
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  function recordSuccess() {
+    lastSuccessAt = Date.now();
+    breaker.recordSuccess();
+  }
+
+  function recordFailure(reason: string) {
+    lastFailureAt = Date.now();
+    lastError = reason;
+    breaker.recordFailure();
+  }
+
+  /**
+   * Sends a call through the circuit breaker, retrying failed attempts with
+   * exponential backoff when `retries` allows
+   */
+  async function send(
+    path: string,
+    init: RequestInit,
+    { query = "", retries = 0 }: SendOptions = {},
+  ): Promise<Response> {
+    if (!breaker.tryAcquire()) {
+      metrics?.upstreamErrors.inc({ endpoint: path, reason: "circuit_open" });
+      throw new GatewayUnavailableError(breaker.retryAfterMs());
+    }
+
+    for (let attemptIndex = 0; ; attemptIndex++) {
+      const canRetry = attemptIndex < retries;
+
+      try {
+        const response = await attempt(path, init, query);
+        if (!isUpstreamFailure(response.status)) {
+          recordSuccess();
+          return response;
+        }
+        if (!canRetry) {
+          recordFailure(`${path} answered ${response.status}`);
+          return response;
+        }
+      } catch (error) {
+        if (!canRetry) {
+          recordFailure(error instanceof Error ? error.message : String(error));
+          throw error;
+        }
+      }
+
+      const delayMs = config.retryDelayMs * 2 ** attemptIndex;
+      getLogger(logger).warn("Retrying upstream call", {
+        path,
+        attempt: attemptIndex + 2,
+        delayMs,
+      });
+      await sleep(delayMs);
+    }
+  }
+
+  // Logs the body of a failed call and returns the gateway's message in it
+  async function logErrorBody(
+    response: Response,
+    path: string,
+  ): Promise<string | undefined> {
+    const body = await response.text();
+    getLogger(logger).debug("Upstream error body", {
+      path,
+      status: response.status,
+      body: body.slice(0, 500),
+    });
+    try {
+      const { message } = JSON.parse(body);
+      return typeof message === "string" ? message : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async function refreshToken(): Promise<string> {
+    try {
+      const response = await send("/api/v1/authenticate", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json;charset=utf-8",
+        },
+        body: JSON.stringify({
+          username: config.username,
+          password: config.password,
+          remember_me: false,
+        }),
+      });
+
+      if (!response.ok) {
+        await logErrorBody(response, "/api/v1/authenticate");
+        throw new GatewayError(
+          `Auth failed: ${response.status} ${response.statusText}`,
+          response.status,
+        );
+      }
+
+      current = issueToken(
+        normalizeAuthResponse(await response.json(), schemaDrift),
+      );
+
+      metrics?.tokenRefreshes.inc({ result: "success" });
+      getLogger(logger).info("Gateway token refreshed", {
+        expiresAt: new Date(current.expiresAt).toISOString(),
+      });
+      await tokenStore.set(storeKey, current).catch((error) => {
+        getLogger(logger).warn("Could not save the gateway token", { error });
+      });
+      return current.token;
+    } catch (error) {
+      metrics?.tokenRefreshes.inc({ result: "failure" });
+      getLogger(logger).error("Gateway token refresh failed", { error });
+      current = null;
+      throw error;
+    }
+  }
+
+  const isFresh = (token: StoredToken | null) =>
+    token !== null && Date.now() < token.refreshAt;
+
+  // Another instance may have authenticated already
+  async function loadToken(): Promise<string> {
+    const stored = await tokenStore.get(storeKey).catch((error) => {
+      getLogger(logger).warn("Could not read the stored gateway token", {
+        error,
+      });
+      return null;
+    });
+    if (isFresh(stored)) {
+      current = stored;
+      return stored.token;
+    }
+    return refreshToken();
+  }
+
+  async function getToken(): Promise<string> {
+    if (isFresh(current)) {
+      return current.token;
+    }
+
+    // If there's already a refresh in progress, wait for it
+    if (!refreshPromise) {
+      refreshPromise = loadToken().finally(() => {
+        refreshPromise = null;
+      });
+    }
+
+    return refreshPromise;
+  }
+
+  // Drops the token unless another call has already replaced it
+  async function invalidateToken(token: string) {
+    if (current?.token === token) {
+      current = null;
+    }
+    const stored = await tokenStore.get(storeKey).catch(() => null);
+    if (stored?.token === token) {
+      await tokenStore.delete(storeKey).catch(() => {});
+    }
+  }
+
+  async function get<T = any>(
+    path: string,
+    params: Record<string, string> = {},
+    headers: Record<string, string> = {},
+  ): Promise<T> {
+    const query = new URLSearchParams(params).toString();
+    const request = async () => {
+      const token = await getToken();
+      const response = await send(
+        path,
+        {
+          method: "GET",
+          headers: {
+            Authorization: `Bearer ${token}`,
+            accept: "application/json",
+            ...headers,
+          },
+        },
+        { query, retries: config.retries },
+      );
+      return { token, response };
+    };
+
+    let { token, response } = await request();
+
+    // The token can be revoked or expire early; re-authenticate once
+    if (response.status === 401) {
+      getLogger(logger).warn("Gateway rejected the token, refreshing", {
+        path,
+      });
+      await invalidateToken(token);
+      ({ token, response } = await request());
+    }
+
+    if (!response.ok) {
+      const upstreamMessage = await logErrorBody(response, path);
+      throw new GatewayError(
+        `Gateway request ${path} failed: ${response.status} ${response.statusText}`,
+        response.status,
+        upstreamMessage,
+      );
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Fetches the first page, then the rest: in parallel when the gateway
+   * reports totalPages, one by one until `last` otherwise.
+   */
+  async function fetchAllPages<T extends { id: number }>(
+    fetchPage: (page: PageQuery) => Promise<NormalizedPage<T>>,
+  ): Promise<NormalizedPage<T>> {
+    const size = config.pageSize;
+    const first = await fetchPage({ page: 0, size });
+    const pages = [first];
+
+    if (typeof first.totalPages === "number") {
+      const remaining = Array.from(
+        { length: Math.min(first.totalPages, MAX_PAGES) - 1 },
+        (_, index) => index + 1,
+      );
+      pages.push(
+        ...(await mapWithConcurrency(
+          remaining,
+          config.pageConcurrency,
+          (page) => fetchPage({ page, size }),
+        )),
+      );
+    } else {
+      let current = first;
+      while (
+        current.last === false &&
+        current.data.length > 0 &&
+        pages.length < MAX_PAGES
+      ) {
+        current = await fetchPage({ page: pages.length, size });
+        pages.push(current);
+      }
+    }
+
+    // Records can shift between pages while we read them
+    const byId = new Map<number, T>();
+    for (const page of pages) {
+      for (const record of page.data) {
+        byId.set(record.id, record);
+      }
+    }
+    const data = [...byId.values()];
+    const totalElements = first.totalElements ?? data.length;
+
+    const lastPage = pages[pages.length - 1];
+    if (
+      first.totalPages > MAX_PAGES ||
+      (pages.length === MAX_PAGES && lastPage.last === false)
+    ) {
+      getLogger(logger).warn("Stopped paging at the page limit", {
+        maxPages: MAX_PAGES,
+        records: data.length,
+        totalElements,
+      });
+    }
+
+    return {
+      data,
+      totalElements,
+      totalPages: 1,
+      last: true,
+      first: true,
+      numberOfElements: data.length,
+      size: data.length,
+      number: 0,
+    };
+  }
+
+  const client: GatewayClient = {
+    config,
+    getToken,
+    status: () => ({
+      circuit: breaker.state(),
+      lastSuccessAt,
+      lastFailureAt,
+      lastError,
+      tokenExpiresAt: current?.expiresAt ?? null,
+      tokenValid: current !== null && Date.now() < current.expiresAt,
+    }),
+    get,
+
+    async getPrices(query) {
+      const payload = await get(
+        "/api/v2/admin/packages/prices",
+        {
+          size: "50",
+          "dimensions.width": (query.width ?? 32).toString(),
+          "dimensions.length": (query.length ?? 45).toString(),
+          "dimensions.height": (query.height ?? 1).toString(),
+          "dimensions.unit": "METRIC",
+          "dimensions.weight": query.weight.toString(),
+          to_country_id: config.countryId,
+          from_country_id: config.countryId,
+          courier_type: query.courier_type,
+          page: "0",
+          customerId: config.customerId,
+          logistic_type: "REGULAR",
+          from_latitude: query.from_latitude.toString(),
+          from_longitude: query.from_longitude.toString(),
+          to_latitude: query.to_latitude.toString(),
+          to_longitude: query.to_longitude.toString(),
+        },
+        { marketplace_id: config.marketplaceId },
+      );
+      return normalizePrices(payload, schemaDrift);
+    },
+
+    async getCities({ page = 0, size = config.pageSize } = {}) {
+      const payload = await get("/api/v2/cities", {
+        size: size.toString(),
+        country_id: config.countryId,
+        is_uae: "false",
+        page: page.toString(),
+        status: "active",
+      });
+      return normalizeCities(payload, schemaDrift);
+    },
+
+    async getWarehouses(type, { page = 0, size = config.pageSize } = {}) {
+      const payload = await get("/api/v1/admin/warehouses", {
+        size: size.toString(),
+        multi_marketplace: "false",
+        page: page.toString(),
+        status: "active",
+        type,
+        show_all: "true",
+      });
+      return normalizeWarehouses(payload, schemaDrift);
+    },
+
+    getAllCities() {
+      return fetchAllPages((page) => client.getCities(page));
+    },
+
+    getAllWarehouses(type) {
+      return fetchAllPages((page) => client.getWarehouses(type, page));
+    },
+  };
+
+  return client;
+}
+
+/**
+ * Returns the gateway client that createServer() attached to the app.
+ */
+export function getGateway(req: Request): GatewayClient {
+  return req.app.locals.gateway as GatewayClient;
+}
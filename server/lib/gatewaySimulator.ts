@@ -0,0 +1,108 @@
+import { SimulatorConfig } from "../config";
+import authenticateFixture from "../fixtures/authenticate.json";
+import citiesFixture from "../fixtures/cities.json";
+import warehousesFixture from "../fixtures/warehouses.json";
+import lockersFixture from "../fixtures/lockers.json";
+import pricesFixture from "../fixtures/prices.json";
+
+/**
+ * Offline stand-in for the FARGO gateway.
+ * Returns a fetch-compatible function that serves the authenticate,
+ * prices, cities and warehouses endpoints from recorded fixtures, so the
+ * server can run without network access or a live account.
+ *
+ * Scenarios:
+ * - default: fixtures as recorded
+ * - slow: fixtures, delayed by `delayMs`
+ * - unauthorized: authenticate answers 401
+ * - server-error: every endpoint answers 500
+ * - empty: list endpoints answer with no records
+ * - rejected: prices answer 400, as for a shipment over the weight limit
+ */
+
+const SIMULATOR_TOKEN = authenticateFixture.data.id_token;
+
+export function createGatewaySimulator(config: SimulatorConfig): typeof fetch {
+  return async (input: string | URL | Request, init: RequestInit = {}) => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    const method = (init.method || "GET").toUpperCase();
+    const headers = new Headers(init.headers);
+
+    if (config.scenario === "slow") {
+      await new Promise((resolve) => setTimeout(resolve, config.delayMs));
+    }
+
+    if (config.scenario === "server-error") {
+      return json({ status: "error", message: "Internal Server Error" }, 500);
+    }
+
+    if (url.pathname === "/api/v1/authenticate" && method === "POST") {
+      if (config.scenario === "unauthorized") {
+        return json({ status: "error", message: "Bad credentials" }, 401);
+      }
+      return json(authenticateFixture);
+    }
+
+    if (headers.get("Authorization") !== `Bearer ${SIMULATOR_TOKEN}`) {
+      return json({ status: "error", message: "Unauthorized" }, 401);
+    }
+
+    const params = url.searchParams;
+    const isEmpty = config.scenario === "empty";
+
+    switch (url.pathname) {
+      case "/api/v2/admin/packages/prices": {
+        if (config.scenario === "rejected") {
+          return json(
+            { status: "error", message: "Weight exceeds the tariff limit" },
+            400,
+          );
+        }
+        const list = isEmpty
+          ? []
+          : pricesFixture.filter(
+              (price) => price.courier_type.type === params.get("courier_type"),
+            );
+        return json({ status: "success", data: { total: list.length, list } });
+      }
+
+      case "/api/v2/cities":
+        return json(page(isEmpty ? [] : citiesFixture, params));
+
+      case "/api/v1/admin/warehouses": {
+        const records =
+          params.get("type") === "LOCKER" ? lockersFixture : warehousesFixture;
+        return json(page(isEmpty ? [] : records, params));
+      }
+
+      default:
+        return json({ status: "error", message: "Not Found" }, 404);
+    }
+  };
+}
+
+// Slice records the way the gateway pages its list endpoints
+function page<T>(records: T[], params: URLSearchParams) {
+  const size = Number(params.get("size")) || 20;
+  const number = Number(params.get("page")) || 0;
+  const totalPages = Math.ceil(records.length / size);
+  const data = records.slice(number * size, (number + 1) * size);
+
+  return {
+    data,
+    totalElements: records.length,
+    totalPages,
+    last: number >= totalPages - 1,
+    first: number === 0,
+    numberOfElements: data.length,
+    size,
+    number,
+  };
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { z } from "zod";
+import { tariffCalculationInputSchema } from "@shared/api";
+import { toJsonSchema } from "./jsonSchema";
+
+describe("toJsonSchema", () => {
+  it("should convert objects with required and optional fields", () => {
+    const schema = z
+      .object({
+        name: z.string().describe("Display name"),
+        count: z.number().int().min(1).max(10),
+        tags: z.array(z.string()).min(1).optional(),
+        kind: z.enum(["a", "b"]).default("a"),
+      })
+      .strict();
+
+    expect(toJsonSchema(schema)).toEqual({
+      type: "object",
+      properties: {
+        name: { type: "string", description: "Display name" },
+        count: { type: "integer", minimum: 1, maximum: 10 },
+        tags: { type: "array", items: { type: "string" }, minItems: 1 },
+        kind: { type: "string", enum: ["a", "b"], default: "a" },
+      },
+      required: ["name", "count"],
+      additionalProperties: false,
+    });
+  });
+
+  it("should document preprocessed and refined schemas by their inner schema", () => {
+    const converted = toJsonSchema(tariffCalculationInputSchema);
+
+    expect(converted.required).toContain("tariff_type");
+    expect(converted.required).not.toContain("length");
+    expect((converted.properties as any).weight).toEqual({
+      type: "number",
+      minimum: 0,
+      exclusiveMinimum: true,
+      maximum: 1500,
+    });
+  });
+
+  it("should reference named schemas and wrap nullable references", () => {
+    const point = z.object({ lat: z.number(), lon: z.number() });
+    const named = new Map<z.ZodTypeAny, string>([[point, "Point"]]);
+    const schema = z.object({ from: point, to: point.nullable() });
+
+    expect(toJsonSchema(schema, named).properties).toEqual({
+      from: { $ref: "#/components/schemas/Point" },
+      to: { allOf: [{ $ref: "#/components/schemas/Point" }], nullable: true },
+    });
+    expect(toJsonSchema(point, named)).toHaveProperty("type", "object");
+  });
+
+  it("should convert unions and literals", () => {
+    const schema = z.discriminatedUnion("status", [
+      z.object({ status: z.literal("ok") }),
+      z.object({ status: z.literal("error"), error: z.string() }),
+    ]);
+
+    expect(toJsonSchema(schema).oneOf).toHaveLength(2);
+    expect(toJsonSchema(z.literal(3))).toEqual({ type: "number", enum: [3] });
+  });
+
+  it("should refuse schemas it cannot express", () => {
+    expect(() => toJsonSchema(z.date())).toThrow("ZodDate");
+  });
+});
@@ -0,0 +1,127 @@
+import { z } from "zod";
+
+/**
+ * Converts the zod schemas used by the API into OpenAPI 3.0 schema objects.
+ * Covers the zod features shared/api.ts and the OpenAPI response schemas
+ * use; anything else throws so a new construct cannot be silently dropped
+ * from the spec. Preprocessing and refinements are not expressible in JSON
+ * Schema and document their inner schema.
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+/** Schemas emitted as `$ref`s to `#/components/schemas/<name>` */
+export type NamedSchemas = Map<z.ZodTypeAny, string>;
+
+export function toJsonSchema(
+  schema: z.ZodTypeAny,
+  named: NamedSchemas = new Map(),
+  root = true,
+): JsonSchema {
+  const name = named.get(schema);
+  if (name && !root) {
+    return { $ref: `#/components/schemas/${name}` };
+  }
+
+  const convert = (inner: z.ZodTypeAny) => toJsonSchema(inner, named, false);
+  // OpenAPI 3.0 ignores keywords next to a $ref, so it is wrapped instead
+  const extend = (result: JsonSchema, extra: JsonSchema): JsonSchema =>
+    result.$ref ? { allOf: [result], ...extra } : { ...result, ...extra };
+  const described = (result: JsonSchema): JsonSchema =>
+    schema.description
+      ? extend(result, { description: schema.description })
+      : result;
+  const def = schema._def;
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const required = Object.keys(shape).filter(
+      (key) => !shape[key].isOptional(),
+    );
+    return described({
+      type: "object",
+      properties: Object.fromEntries(
+        Object.entries(shape).map(([key, value]) => [key, convert(value)]),
+      ),
+      ...(required.length ? { required } : {}),
+      ...(def.unknownKeys === "strict" ? { additionalProperties: false } : {}),
+    });
+  }
+
+  if (schema instanceof z.ZodString) {
+    return described({ type: "string" });
+  }
+
+  if (schema instanceof z.ZodNumber) {
+    const result: JsonSchema = { type: "number" };
+    for (const check of def.checks) {
+      if (check.kind === "int") result.type = "integer";
+      if (check.kind === "min") {
+        result.minimum = check.value;
+        if (!check.inclusive) result.exclusiveMinimum = true;
+      }
+      if (check.kind === "max") {
+        result.maximum = check.value;
+        if (!check.inclusive) result.exclusiveMaximum = true;
+      }
+    }
+    return described(result);
+  }
+
+  if (schema instanceof z.ZodBoolean) {
+    return described({ type: "boolean" });
+  }
+
+  if (schema instanceof z.ZodEnum) {
+    return described({ type: "string", enum: [...def.values] });
+  }
+
+  if (schema instanceof z.ZodLiteral) {
+    return described({ type: typeof def.value, enum: [def.value] });
+  }
+
+  if (schema instanceof z.ZodArray) {
+    return described({
+      type: "array",
+      items: convert(def.type),
+      ...(def.minLength ? { minItems: def.minLength.value } : {}),
+      ...(def.maxLength ? { maxItems: def.maxLength.value } : {}),
+    });
+  }
+
+  if (schema instanceof z.ZodRecord) {
+    return described({
+      type: "object",
+      additionalProperties: convert(def.valueType),
+    });
+  }
+
+  if (
+    schema instanceof z.ZodUnion ||
+    schema instanceof z.ZodDiscriminatedUnion
+  ) {
+    const options = [...def.options.values()] as z.ZodTypeAny[];
+    return described({ oneOf: options.map(convert) });
+  }
+
+  if (schema instanceof z.ZodNullable) {
+    return described(extend(convert(def.innerType), { nullable: true }));
+  }
+
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) {
+    const inner = convert(def.innerType);
+    return schema instanceof z.ZodDefault
+      ? described(extend(inner, { default: def.defaultValue() }))
+      : described(inner);
+  }
+
+  if (schema instanceof z.ZodEffects) {
+    return described(convert(def.schema));
+  }
+
+  if (schema instanceof z.ZodUnknown || schema instanceof z.ZodAny) {
+    return described({});
+  }
+
+  throw new Error(`Cannot convert ${def.typeName} to JSON Schema`);
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from "vitest";
+import {
+  REDACTED,
+  createLogger,
+  getLogger,
+  redact,
+  setDefaultLogger,
+} from "./logger";
+
+function capture(level?: Parameters<typeof createLogger>[0]["level"]) {
+  const lines: any[] = [];
+  const logger = createLogger({
+    level,
+    write: (line) => lines.push(JSON.parse(line)),
+  });
+  return { logger, lines };
+}
+
+describe("redact", () => {
+  it("should mask tokens, passwords and personal data by key", () => {
+    expect(
+      redact({
+        id_token: "abc",
+        password: "secret",
+        headers: { Authorization: "Bearer abc" },
+        recipient: { phone: "+998901234567", first_name: "Aziz" },
+        city: "Tashkent",
+      }),
+    ).toEqual({
+      id_token: REDACTED,
+      password: REDACTED,
+      headers: { Authorization: REDACTED },
+      recipient: { phone: REDACTED, first_name: REDACTED },
+      city: "Tashkent",
+    });
+  });
+
+  it("should mask bearer tokens and JWTs inside strings", () => {
+    expect(redact("Auth failed for Bearer abc.def")).toBe(
+      `Auth failed for Bearer ${REDACTED}`,
+    );
+    expect(redact('{"id_token":"eyJhbGciOi.eyJzdWIi.c2lnbmF0dXJl"}')).toBe(
+      `{"id_token":"${REDACTED}"}`,
+    );
+  });
+
+  it("should serialize errors without their stack", () => {
+    const error = Object.assign(new Error("Gateway down"), { status: 503 });
+
+    expect(redact({ error })).toEqual({
+      error: { name: "Error", message: "Gateway down", status: 503 },
+    });
+  });
+});
+
+describe("createLogger", () => {
+  it("should write one JSON entry per call with level, time and fields", () => {
+    const { logger, lines } = capture();
+
+    logger.info("Upstream call", { path: "/api/v1/authenticate" });
+
+    expect(lines).toEqual([
+      {
+        level: "info",
+        time: expect.any(String),
+        msg: "Upstream call",
+        path: "/api/v1/authenticate",
+      },
+    ]);
+  });
+
+  it("should drop entries below the configured level", () => {
+    const { logger, lines } = capture("warn");
+
+    logger.debug("debug");
+    logger.info("info");
+    logger.warn("warn");
+    logger.error("error");
+
+    expect(lines.map((line) => line.level)).toEqual(["warn", "error"]);
+  });
+
+  it("should write nothing when silent", () => {
+    const { logger, lines } = capture("silent");
+
+    logger.error("error");
+
+    expect(lines).toEqual([]);
+  });
+
+  it("should add child fields to every entry", () => {
+    const { logger, lines } = capture();
+
+    logger
+      .child({ requestId: "r1" })
+      .info("Request completed", { status: 200 });
+
+    expect(lines[0]).toMatchObject({ requestId: "r1", status: 200 });
+  });
+});
+
+describe("getLogger", () => {
+  it("should use the default logger outside requests", () => {
+    const { logger, lines } = capture("warn");
+    setDefaultLogger(logger);
+
+    getLogger().info("skipped");
+    getLogger().warn("kept");
+
+    expect(lines.map((line) => line.msg)).toEqual(["kept"]);
+  });
+});
@@ -0,0 +1,190 @@
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import { RequestHandler } from "express";
+
+/**
+ * Structured JSON logger.
+ * Every entry is one JSON line with a level, timestamp and message plus
+ * bound fields. Tokens, passwords and personal data are redacted before
+ * anything is written, whatever the caller passes in.
+ */
+
+export const LOG_LEVELS = ["debug", "info", "warn", "error", "silent"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  readonly level: LogLevel;
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  /** Logger that adds `fields` to every entry */
+  child(fields: LogFields): Logger;
+}
+
+export interface LoggerOptions {
+  level?: LogLevel;
+  /** Receives each serialized entry, defaults to stdout */
+  write?: (line: string) => void;
+  fields?: LogFields;
+}
+
+export const REDACTED = "[REDACTED]";
+
+// Matched against lower-cased keys with "-" and "_" removed
+const SENSITIVE_KEYS = [
+  "token",
+  "password",
+  "secret",
+  "authorization",
+  "cookie",
+  "apikey",
+  "username",
+  "email",
+  "phone",
+  "firstname",
+  "lastname",
+  "fullname",
+  "address",
+];
+
+const JWT_PATTERN = /\beyJ[\w-]+\.[\w-]+\.[\w-]*/g;
+const BEARER_PATTERN = /\bBearer\s+[\w.~+/=-]+/gi;
+
+const MAX_DEPTH = 6;
+
+const SEVERITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: Infinity,
+};
+
+function isSensitiveKey(key: string): boolean {
+  const normalized = key.toLowerCase().replace(/[-_]/g, "");
+  return SENSITIVE_KEYS.some((sensitive) => normalized.includes(sensitive));
+}
+
+/** Deep copy of `value` with sensitive keys and token-like strings masked */
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") {
+    return value
+      .replace(JWT_PATTERN, REDACTED)
+      .replace(BEARER_PATTERN, `Bearer ${REDACTED}`);
+  }
+  if (value instanceof Error) {
+    return redact(
+      {
+        name: value.name,
+        message: value.message,
+        ...("status" in value ? { status: value.status } : {}),
+      },
+      depth,
+    );
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return "[Truncated]";
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      isSensitiveKey(key) ? REDACTED : redact(item, depth + 1),
+    ]),
+  );
+}
+
+export function createLogger(options: LoggerOptions = {}): Logger {
+  const level = options.level ?? "info";
+  const write =
+    options.write ?? ((line: string) => process.stdout.write(`${line}\n`));
+  const bound = options.fields ?? {};
+
+  const log =
+    (entryLevel: Exclude<LogLevel, "silent">) =>
+    (message: string, fields: LogFields = {}) => {
+      if (SEVERITY[entryLevel] < SEVERITY[level]) return;
+
+      write(
+        JSON.stringify({
+          level: entryLevel,
+          time: new Date().toISOString(),
+          msg: redact(message),
+          ...(redact({ ...bound, ...fields }) as LogFields),
+        }),
+      );
+    };
+
+  return {
+    level,
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+    child: (fields) =>
+      createLogger({ level, write, fields: { ...bound, ...fields } }),
+  };
+}
+
+// Used outside requests and by modules that have no app to read it from;
+// createServer swaps in one at the configured level
+let defaultLogger = createLogger();
+
+/** Sets the logger used outside requests */
+export function setDefaultLogger(logger: Logger) {
+  defaultLogger = logger;
+}
+
+const requestContext = new AsyncLocalStorage<Logger>();
+
+/**
+ * The logger of the request being handled, so entries carry its
+ * request id, or `fallback` outside of a request
+ */
+export function getLogger(fallback: Logger = defaultLogger): Logger {
+  return requestContext.getStore() ?? fallback;
+}
+
+export const REQUEST_ID_HEADER = "X-Request-Id";
+
+// Incoming ids are echoed back, so anything unusual is replaced
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+/**
+ * Assigns each request an id (reusing a well-formed incoming X-Request-Id),
+ * returns it in the response and logs the request once it completes
+ */
+export function requestLogger(logger: Logger): RequestHandler {
+  return (req, res, next) => {
+    const incoming = req.get(REQUEST_ID_HEADER);
+    const requestId =
+      incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+    const startedAt = performance.now();
+    const log = logger.child({ requestId });
+
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+    res.on("finish", () => {
+      const fields = {
+        method: req.method,
+        path: req.path,
+        status: res.statusCode,
+        durationMs: Math.round(performance.now() - startedAt),
+      };
+      if (res.statusCode >= 500) log.error("Request failed", fields);
+      else if (res.statusCode >= 400) log.warn("Request rejected", fields);
+      else log.info("Request completed", fields);
+    });
+
+    requestContext.run(log, next);
+  };
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { createMetricsRegistry } from "./metrics";
+
+describe("createMetricsRegistry", () => {
+  it("should render counters per label set", () => {
+    const registry = createMetricsRegistry();
+    const requests = registry.counter("requests_total", "Requests");
+
+    requests.inc({ route: "/a" });
+    requests.inc({ route: "/a" });
+    requests.inc({ route: '/b"' }, 3);
+
+    expect(registry.render()).toBe(
+      [
+        "# HELP requests_total Requests",
+        "# TYPE requests_total counter",
+        'requests_total{route="/a"} 2',
+        'requests_total{route="/b\\""} 3',
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("should render cumulative histogram buckets", () => {
+    const registry = createMetricsRegistry();
+    const latency = registry.histogram("latency_seconds", "Latency", [0.1, 1]);
+
+    latency.observe({ route: "/a" }, 0.05);
+    latency.observe({ route: "/a" }, 0.5);
+    latency.observe({ route: "/a" }, 2);
+
+    expect(registry.render()).toContain(
+      [
+        'latency_seconds_bucket{route="/a",le="0.1"} 1',
+        'latency_seconds_bucket{route="/a",le="1"} 2',
+        'latency_seconds_bucket{route="/a",le="+Inf"} 3',
+        'latency_seconds_sum{route="/a"} 2.55',
+        'latency_seconds_count{route="/a"} 3',
+      ].join("\n"),
+    );
+  });
+
+  it("should read gauges on every render", () => {
+    const registry = createMetricsRegistry();
+    let value = 1;
+    registry.gauge("queue_size", "Queue size", () => [{ labels: {}, value }]);
+
+    expect(registry.render()).toContain("queue_size 1");
+    value = 2;
+    expect(registry.render()).toContain("queue_size 2");
+  });
+});
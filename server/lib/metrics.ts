@@ -0,0 +1,252 @@
+import { Request, RequestHandler } from "express";
+
+/**
+ * Minimal Prometheus metrics: counters, histograms and gauges rendered in
+ * the text exposition format for GET /api/metrics. Label values must come
+ * from small fixed sets (route patterns, tariff types), never raw input.
+ */
+
+export type Labels = Record<string, string>;
+
+export interface Counter {
+  inc(labels?: Labels, value?: number): void;
+}
+
+export interface Histogram {
+  observe(labels: Labels, value: number): void;
+}
+
+interface Series {
+  labels: Labels;
+  value: number;
+}
+
+interface HistogramSeries {
+  labels: Labels;
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+interface Metric {
+  render(): string[];
+}
+
+export interface MetricsRegistry {
+  counter(name: string, help: string): Counter;
+  histogram(name: string, help: string, buckets?: number[]): Histogram;
+  /** A gauge read from `collect` on every scrape */
+  gauge(name: string, help: string, collect: () => Series[]): void;
+  render(): string;
+}
+
+// Seconds, from a cache hit to a slow gateway call
+export const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabel(value)}"`,
+  );
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+const seriesKey = (labels: Labels) =>
+  JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+const header = (name: string, help: string, type: string) => [
+  `# HELP ${name} ${help}`,
+  `# TYPE ${name} ${type}`,
+];
+
+export function createMetricsRegistry(): MetricsRegistry {
+  const metrics: Metric[] = [];
+
+  return {
+    counter(name, help) {
+      const series = new Map<string, Series>();
+      metrics.push({
+        render: () => [
+          ...header(name, help, "counter"),
+          ...[...series.values()].map(
+            ({ labels, value }) => `${name}${formatLabels(labels)} ${value}`,
+          ),
+        ],
+      });
+
+      return {
+        inc(labels = {}, value = 1) {
+          const key = seriesKey(labels);
+          const entry = series.get(key) ?? { labels, value: 0 };
+          entry.value += value;
+          series.set(key, entry);
+        },
+      };
+    },
+
+    histogram(name, help, buckets = DEFAULT_BUCKETS) {
+      const series = new Map<string, HistogramSeries>();
+      metrics.push({
+        render: () => [
+          ...header(name, help, "histogram"),
+          ...[...series.values()].flatMap(({ labels, counts, sum, count }) => [
+            ...buckets.map(
+              (bound, index) =>
+                `${name}_bucket${formatLabels({ ...labels, le: bound.toString() })} ${counts[index]}`,
+            ),
+            `${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`,
+            `${name}_sum${formatLabels(labels)} ${sum}`,
+            `${name}_count${formatLabels(labels)} ${count}`,
+          ]),
+        ],
+      });
+
+      return {
+        observe(labels, value) {
+          const key = seriesKey(labels);
+          const entry = series.get(key) ?? {
+            labels,
+            counts: buckets.map(() => 0),
+            sum: 0,
+            count: 0,
+          };
+          buckets.forEach((bound, index) => {
+            if (value <= bound) entry.counts[index]++;
+          });
+          entry.sum += value;
+          entry.count++;
+          series.set(key, entry);
+        },
+      };
+    },
+
+    gauge(name, help, collect) {
+      metrics.push({
+        render: () => [
+          ...header(name, help, "gauge"),
+          ...collect().map(
+            ({ labels, value }) => `${name}${formatLabels(labels)} ${value}`,
+          ),
+        ],
+      });
+    },
+
+    render() {
+      return `${metrics.flatMap((metric) => metric.render()).join("\n")}\n`;
+    },
+  };
+}
+
+/** Everything the server measures, registered once per app */
+export interface ServerMetrics {
+  registry: MetricsRegistry;
+  httpRequests: Counter;
+  httpDuration: Histogram;
+  upstreamRequests: Counter;
+  upstreamDuration: Histogram;
+  upstreamErrors: Counter;
+  tokenRefreshes: Counter;
+  cacheLookups: Counter;
+  quotes: Counter;
+}
+
+export function createServerMetrics(version: string): ServerMetrics {
+  const registry = createMetricsRegistry();
+  const cacheCounts = new Map<string, { hits: number; total: number }>();
+  const cacheLookups = registry.counter(
+    "cache_lookups_total",
+    "Catalog cache lookups by key and status (HIT, STALE, MISS)",
+  );
+
+  const metrics: ServerMetrics = {
+    registry,
+    httpRequests: registry.counter(
+      "http_requests_total",
+      "HTTP requests by method, route and status",
+    ),
+    httpDuration: registry.histogram(
+      "http_request_duration_seconds",
+      "HTTP request latency by method and route",
+    ),
+    upstreamRequests: registry.counter(
+      "gateway_requests_total",
+      "Gateway calls by endpoint and status",
+    ),
+    upstreamDuration: registry.histogram(
+      "gateway_request_duration_seconds",
+      "Gateway call latency by endpoint",
+    ),
+    upstreamErrors: registry.counter(
+      "gateway_errors_total",
+      "Failed gateway calls by endpoint and reason",
+    ),
+    tokenRefreshes: registry.counter(
+      "gateway_token_refreshes_total",
+      "Gateway authentications by result",
+    ),
+    cacheLookups: {
+      inc(labels, value = 1) {
+        cacheLookups.inc(labels, value);
+        const counts = cacheCounts.get(labels.key) ?? { hits: 0, total: 0 };
+        counts.total += value;
+        if (labels.status !== "MISS") counts.hits += value;
+        cacheCounts.set(labels.key, counts);
+      },
+    },
+    quotes: registry.counter(
+      "quotes_total",
+      "Prices quoted by tariff type and source (gateway, rate_card)",
+    ),
+  };
+
+  registry.gauge(
+    "cache_hit_ratio",
+    "Share of catalog lookups served from the cache, fresh or stale",
+    () =>
+      [...cacheCounts].map(([key, { hits, total }]) => ({
+        labels: { key },
+        value: total ? hits / total : 0,
+      })),
+  );
+  registry.gauge("build_info", "Build version of the running server", () => [
+    { labels: { version }, value: 1 },
+  ]);
+  registry.gauge(
+    "process_uptime_seconds",
+    "Seconds since the process started",
+    () => [{ labels: {}, value: Math.round(process.uptime()) }],
+  );
+
+  return metrics;
+}
+
+export function getMetrics(req: Request): ServerMetrics {
+  return req.app.locals.metrics as ServerMetrics;
+}
+
+/** Counts and times every request under its route pattern */
+export function requestMetrics(metrics: ServerMetrics): RequestHandler {
+  return (req, res, next) => {
+    const startedAt = performance.now();
+
+    res.on("finish", () => {
+      // Patterns like /api/regions/:regionId/cities keep the label set small
+      const route = req.route ? `${req.baseUrl}${req.route.path}` : "unmatched";
+      metrics.httpRequests.inc({
+        method: req.method,
+        route,
+        status: res.statusCode.toString(),
+      });
+      metrics.httpDuration.observe(
+        { method: req.method, route },
+        (performance.now() - startedAt) / 1000,
+      );
+    });
+
+    next();
+  };
+}
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeAll, beforeEach } from "vitest";
+import {
+  GatewaySchemaError,
+  SchemaDrift,
+  createSchemaDrift,
+  normalizeAuthResponse,
+  normalizeCities,
+  normalizePrices,
+  normalizeWarehouses,
+} from "./normalize";
+import { createLogger, setDefaultLogger } from "./logger";
+
+beforeAll(() => {
+  setDefaultLogger(createLogger({ level: "silent" }));
+});
+
+let drift: SchemaDrift;
+beforeEach(() => {
+  drift = createSchemaDrift();
+});
+
+const warehouse = {
+  id: 1,
+  name: "FARGO Чиланзар",
+  city: "Ташкент",
+  address: "ул. Бунёдкор, 12",
+  lat: 41.28,
+  lon: 69.2,
+  status: "active",
+  type: "POST_OFFICE",
+};
+
+describe("normalizeWarehouses", () => {
+  it("should pass valid records and page metadata through", () => {
+    const page = normalizeWarehouses(
+      {
+        data: [warehouse],
+        totalElements: 1,
+        totalPages: 1,
+        last: true,
+      },
+      drift,
+    );
+
+    expect(page.data).toEqual([warehouse]);
+    expect(page.totalElements).toBe(1);
+    expect(page.last).toBe(true);
+  });
+
+  it("should repair numeric strings, nested cities and null phones", () => {
+    const page = normalizeWarehouses(
+      {
+        data: {
+          list: [
+            {
+              ...warehouse,
+              id: "2",
+              city: { id: 5, name: " Самарканд " },
+              lat: "39.65",
+              phone: null,
+            },
+          ],
+        },
+      },
+      drift,
+    );
+
+    expect(page.data).toEqual([
+      { ...warehouse, id: 2, city: "Самарканд", city_id: 5, lat: 39.65 },
+    ]);
+  });
+
+  it("should drop records that cannot be repaired", () => {
+    const page = normalizeWarehouses(
+      {
+        data: [warehouse, { ...warehouse, id: 3, lat: "north" }],
+      },
+      drift,
+    );
+
+    expect(page.data).toHaveLength(1);
+    const report = drift
+      .diagnostics()
+      .data.find((entry) => entry.kind === "warehouses");
+    expect(report.dropped).toBeGreaterThan(0);
+    expect(report.sampleIssues[0]).toMatchObject({
+      action: "dropped",
+      path: "lat",
+    });
+  });
+
+  it("should count drift only in the report it is given", () => {
+    const other = createSchemaDrift();
+    normalizeWarehouses(
+      { data: [{ ...warehouse, lat: "north" }, warehouse] },
+      drift,
+    );
+
+    expect(drift.report("warehouses")).toMatchObject({
+      received: 2,
+      dropped: 1,
+    });
+    expect(other.report("warehouses")).toMatchObject({
+      received: 0,
+      dropped: 0,
+    });
+  });
+
+  it("should fail loudly when no record is usable", () => {
+    expect(() =>
+      normalizeWarehouses({ data: [{ id: "x" }, { name: 1 }] }, drift),
+    ).toThrow(GatewaySchemaError);
+  });
+
+  it("should fail loudly when no list is present", () => {
+    expect(() => normalizeWarehouses({ content: [] }, drift)).toThrow(
+      GatewaySchemaError,
+    );
+  });
+
+  it("should accept a genuinely empty list", () => {
+    expect(normalizeWarehouses({ data: [] }, drift).data).toEqual([]);
+  });
+});
+
+describe("normalizeCities", () => {
+  it("should read lists nested in data.data", () => {
+    const city = {
+      id: 1216279901,
+      name: "Ташкент",
+      center_latitude: 41.31,
+      center_longitude: 69.24,
+      country_id: 234,
+      status: "active",
+    };
+
+    expect(normalizeCities({ data: { data: [city] } }, drift).data).toEqual([
+      city,
+    ]);
+  });
+});
+
+describe("normalizePrices", () => {
+  it("should repair prices sent as strings", () => {
+    const [price] = normalizePrices(
+      {
+        data: {
+          list: [
+            {
+              id: 1,
+              name: "Офис - Офис",
+              courier_type: { type: "OFFICE_OFFICE" },
+              price: { total: "25000" },
+            },
+          ],
+        },
+      },
+      drift,
+    );
+
+    expect(price.price.total).toBe(25000);
+    expect(price.courier_type.sort_order).toBe(0);
+  });
+});
+
+describe("normalizeAuthResponse", () => {
+  it("should find the token and expiry on any known path", () => {
+    expect(
+      normalizeAuthResponse(
+        { data: { id_token: "abc", expires_in: 3600 } },
+        drift,
+      ),
+    ).toEqual({ id_token: "abc", expires_in: 3600 });
+    expect(normalizeAuthResponse({ access_token: "def" }, drift).id_token).toBe(
+      "def",
+    );
+  });
+
+  it("should fail when there is no token", () => {
+    expect(() => normalizeAuthResponse({ data: {} }, drift)).toThrow(
+      GatewaySchemaError,
+    );
+  });
+});
@@ -0,0 +1,399 @@
+import { Request } from "express";
+import { z } from "zod";
+import {
+  AuthResponse,
+  City,
+  SchemaDiagnostics,
+  SchemaDriftReport,
+  TariffPrice,
+  Warehouse,
+} from "@shared/api";
+import { getLogger } from "./logger";
+
+/**
+ * Normalizes FARGO gateway payloads into the shared types.
+ * Each record is checked against a strict schema first; records that only
+ * fail on representation (numeric strings, missing optional fields, nested
+ * city objects) are repaired, anything else is dropped. Every deviation is
+ * counted so schema drift shows up in the logs and on /api/diagnostics.
+ * Counts belong to one server: createServer keeps them in app.locals and
+ * hands them to its gateway client.
+ */
+
+export type PayloadKind = "auth" | "cities" | "warehouses" | "prices";
+
+export class GatewaySchemaError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: PayloadKind,
+  ) {
+    super(message);
+    this.name = "GatewaySchemaError";
+  }
+}
+
+const coercedNumber = z.preprocess(
+  (value) =>
+    typeof value === "string" && value.trim() !== "" ? Number(value) : value,
+  z.number().finite(),
+);
+
+const optionalString = z.preprocess(
+  (value) => (value === null || value === "" ? undefined : value),
+  z.string().optional(),
+);
+
+const citySchemas = {
+  strict: z.object({
+    id: z.number(),
+    name: z.string().min(1),
+    center_latitude: z.number(),
+    center_longitude: z.number(),
+    country_id: z.number(),
+    status: z.string(),
+  }),
+  repair: z.object({
+    id: coercedNumber,
+    name: z.string().trim().min(1),
+    center_latitude: coercedNumber,
+    center_longitude: coercedNumber,
+    country_id: coercedNumber,
+    status: z.string().default("active"),
+  }),
+};
+
+const warehouseSchemas = {
+  strict: z.object({
+    id: z.number(),
+    name: z.string().min(1),
+    city: z.string().min(1),
+    city_id: z.number().optional(),
+    address: z.string(),
+    lat: z.number(),
+    lon: z.number(),
+    phone: z.string().optional(),
+    status: z.string(),
+    type: z.string(),
+  }),
+  // Some gateway versions send the city as { id, name }
+  repair: z.preprocess(
+    (value: any) =>
+      value && value.city && typeof value.city === "object"
+        ? {
+            ...value,
+            city: value.city.name,
+            city_id: value.city_id ?? value.city.id,
+          }
+        : value,
+    z.object({
+      id: coercedNumber,
+      name: z.string().trim().min(1),
+      city: z.string().trim().min(1),
+      city_id: coercedNumber.optional(),
+      address: z.preprocess((value) => value ?? "", z.string()),
+      lat: coercedNumber,
+      lon: coercedNumber,
+      phone: optionalString,
+      status: z.string().default("active"),
+      type: z.string(),
+    }),
+  ),
+};
+
+const tariffPriceSchemas = {
+  strict: z.object({
+    id: z.number(),
+    name: z.string(),
+    courier_type: z.object({
+      type: z.string(),
+      icon: z.string(),
+      sort_order: z.number(),
+    }),
+    rule_id: z.number(),
+    has_supplier: z.boolean(),
+    price: z.object({
+      id: z.number(),
+      distance: z.number(),
+      duration: z.number(),
+      total: z.number(),
+      currency: z.string().optional(),
+      delivery_time_min: z.number().optional(),
+      delivery_time_max: z.number().optional(),
+    }),
+  }),
+  repair: z.object({
+    id: coercedNumber,
+    name: z.preprocess((value) => value ?? "", z.string()),
+    courier_type: z.object({
+      type: z.string(),
+      icon: z.preprocess((value) => value ?? "", z.string()),
+      sort_order: coercedNumber.default(0),
+    }),
+    rule_id: coercedNumber.default(0),
+    has_supplier: z.boolean().default(false),
+    price: z.object({
+      id: coercedNumber.default(0),
+      distance: coercedNumber.default(0),
+      duration: coercedNumber.default(0),
+      total: coercedNumber,
+      currency: optionalString,
+      delivery_time_min: coercedNumber.optional(),
+      delivery_time_max: coercedNumber.optional(),
+    }),
+  }),
+};
+
+// Places the gateway has been seen to put lists, in order of preference
+const LIST_PATHS = ["data", "data.data", "data.list", "list"];
+const TOKEN_PATHS = [
+  "data.id_token",
+  "data.data.id_token",
+  "id_token",
+  "access_token",
+  "token",
+];
+const MAX_SAMPLE_ISSUES = 10;
+
+const PAYLOAD_KINDS: PayloadKind[] = ["auth", "cities", "warehouses", "prices"];
+
+export interface SchemaDrift {
+  /** The running report for one payload kind, created on first use */
+  report(kind: PayloadKind): SchemaDriftReport;
+  diagnostics(): SchemaDiagnostics;
+}
+
+export function createSchemaDrift(): SchemaDrift {
+  const reports: Partial<Record<PayloadKind, SchemaDriftReport>> = {};
+
+  const report = (kind: PayloadKind) =>
+    (reports[kind] ??= {
+      kind,
+      lastCheckedAt: null,
+      lastPath: null,
+      received: 0,
+      accepted: 0,
+      repaired: 0,
+      dropped: 0,
+      lastError: null,
+      sampleIssues: [],
+    });
+
+  return {
+    report,
+    diagnostics: () => ({ data: PAYLOAD_KINDS.map(report) }),
+  };
+}
+
+export function getSchemaDrift(req: Request): SchemaDrift {
+  return req.app.locals.schemaDrift as SchemaDrift;
+}
+
+function getPath(payload: unknown, path: string): unknown {
+  return path
+    .split(".")
+    .reduce<any>(
+      (value, key) => (value == null ? undefined : value[key]),
+      payload,
+    );
+}
+
+function recordIssues(
+  entry: SchemaDriftReport,
+  action: "repaired" | "dropped",
+  issues: z.ZodIssue[],
+) {
+  for (const issue of issues) {
+    entry.sampleIssues.unshift({
+      action,
+      path: issue.path.join("."),
+      message: issue.message,
+    });
+  }
+  entry.sampleIssues.length = Math.min(
+    entry.sampleIssues.length,
+    MAX_SAMPLE_ISSUES,
+  );
+}
+
+function fail(entry: SchemaDriftReport, message: string): never {
+  const kind = entry.kind as PayloadKind;
+  entry.lastError = message;
+  getLogger().error("Gateway schema error", { kind, message });
+  throw new GatewaySchemaError(message, kind);
+}
+
+function normalizeRecords<T>(
+  kind: PayloadKind,
+  payload: unknown,
+  schemas: { strict: z.ZodTypeAny; repair: z.ZodTypeAny },
+  drift: SchemaDrift,
+  expectedPath = "data",
+): { records: T[]; container: any } {
+  const entry = drift.report(kind);
+  entry.lastCheckedAt = new Date().toISOString();
+
+  const path = LIST_PATHS.find((candidate) =>
+    Array.isArray(getPath(payload, candidate)),
+  );
+  if (!path) {
+    fail(entry, `No list found at any of: ${LIST_PATHS.join(", ")}`);
+  }
+  if (path !== expectedPath && entry.lastPath !== path) {
+    getLogger().warn("Gateway schema drift: list moved", { kind, path });
+  }
+  entry.lastPath = path;
+
+  const rawRecords = getPath(payload, path) as unknown[];
+  const records: T[] = [];
+  let repaired = 0;
+  let dropped = 0;
+
+  for (const raw of rawRecords) {
+    const strict = schemas.strict.safeParse(raw);
+    if (strict.success) {
+      records.push(strict.data);
+      continue;
+    }
+
+    const repair = schemas.repair.safeParse(raw);
+    if (repair.success) {
+      records.push(repair.data);
+      repaired++;
+      recordIssues(entry, "repaired", strict.error.issues);
+    } else {
+      dropped++;
+      recordIssues(entry, "dropped", repair.error.issues);
+    }
+  }
+
+  entry.received += rawRecords.length;
+  entry.accepted += records.length;
+  entry.repaired += repaired;
+  entry.dropped += dropped;
+
+  if (repaired > 0 || dropped > 0) {
+    getLogger().warn("Gateway schema drift: records repaired or dropped", {
+      kind,
+      repaired,
+      dropped,
+      received: rawRecords.length,
+    });
+  }
+
+  if (rawRecords.length > 0 && records.length === 0) {
+    fail(entry, `All ${rawRecords.length} records failed validation`);
+  }
+
+  entry.lastError = null;
+
+  // Page metadata sits next to the list
+  const container = path.includes(".")
+    ? getPath(payload, path.slice(0, path.lastIndexOf(".")))
+    : payload;
+  return { records, container };
+}
+
+export interface NormalizedPage<T> {
+  data: T[];
+  totalElements?: number;
+  totalPages?: number;
+  last?: boolean;
+  first?: boolean;
+  numberOfElements?: number;
+  size?: number;
+  number?: number;
+}
+
+function normalizePage<T>(
+  kind: PayloadKind,
+  payload: unknown,
+  schemas: { strict: z.ZodTypeAny; repair: z.ZodTypeAny },
+  drift: SchemaDrift,
+): NormalizedPage<T> {
+  const { records, container } = normalizeRecords<T>(
+    kind,
+    payload,
+    schemas,
+    drift,
+  );
+  const meta = { ...(payload as object), ...container };
+
+  return {
+    data: records,
+    totalElements: meta.totalElements,
+    totalPages: meta.totalPages,
+    last: meta.last,
+    first: meta.first,
+    numberOfElements: meta.numberOfElements,
+    size: meta.size,
+    number: meta.number,
+  };
+}
+
+export function normalizeCities(
+  payload: unknown,
+  drift: SchemaDrift,
+): NormalizedPage<City> {
+  return normalizePage<City>("cities", payload, citySchemas, drift);
+}
+
+export function normalizeWarehouses(
+  payload: unknown,
+  drift: SchemaDrift,
+): NormalizedPage<Warehouse> {
+  return normalizePage<Warehouse>(
+    "warehouses",
+    payload,
+    warehouseSchemas,
+    drift,
+  );
+}
+
+export function normalizePrices(
+  payload: unknown,
+  drift: SchemaDrift,
+): TariffPrice[] {
+  return normalizeRecords<TariffPrice>(
+    "prices",
+    payload,
+    tariffPriceSchemas,
+    drift,
+    "data.list",
+  ).records;
+}
+
+export function normalizeAuthResponse(
+  payload: unknown,
+  drift: SchemaDrift,
+): AuthResponse {
+  const entry = drift.report("auth");
+  entry.lastCheckedAt = new Date().toISOString();
+  entry.received++;
+
+  const path = TOKEN_PATHS.find(
+    (candidate) => typeof getPath(payload, candidate) === "string",
+  );
+  if (!path) {
+    entry.dropped++;
+    fail(entry, `No token found at any of: ${TOKEN_PATHS.join(", ")}`);
+  }
+  if (path !== TOKEN_PATHS[0] && entry.lastPath !== path) {
+    getLogger().warn("Gateway schema drift: token moved", {
+      kind: "auth",
+      path,
+    });
+  }
+  entry.lastPath = path;
+  entry.accepted++;
+  entry.lastError = null;
+
+  const parent = path.includes(".")
+    ? getPath(payload, path.slice(0, path.lastIndexOf(".")))
+    : payload;
+  const expiresIn = coercedNumber.safeParse((parent as any)?.expires_in);
+
+  return {
+    id_token: getPath(payload, path) as string,
+    expires_in: expiresIn.success ? expiresIn.data : undefined,
+  };
+}
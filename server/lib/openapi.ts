@@ -0,0 +1,1195 @@
+import { z } from "zod";
+import {
+  AllTariffsResponse,
+  BatchTariffResponse,
+  BatchTariffResult,
+  CachePurgeResponse,
+  CatalogHealth,
+  City,
+  DemoResponse,
+  ErrorResponse,
+  FieldError,
+  HealthResponse,
+  AvailabilityResponse,
+  MAX_BATCH_SIZE,
+  NearestWarehouse,
+  NearestWarehousesResponse,
+  ParcelWeights,
+  TariffAvailability,
+  TariffUnavailableResponse,
+  PriceBreakdown,
+  PriceLine,
+  ReadinessResponse,
+  Region,
+  RegionCitiesResponse,
+  RegionCity,
+  RegionsResponse,
+  SchemaDiagnostics,
+  CitySearchResponse,
+  CitySearchResult,
+  citySearchQuerySchema,
+  WarehouseCityMatch,
+  WarehouseMatchingDiagnostics,
+  TARIFF_TYPES,
+  TariffCalculationResponse,
+  TariffPrice,
+  ValidationErrorResponse,
+  Warehouse,
+  allTariffsInputSchema,
+  availabilityQuerySchema,
+  batchShipmentSchema,
+  nearestWarehousesQuerySchema,
+  tariffCalculationInputSchema,
+  tariffTypeSchema,
+} from "@shared/api";
+import { JsonSchema, NamedSchemas, toJsonSchema } from "./jsonSchema";
+import { API_KEY_HEADER } from "./rateLimit";
+
+/**
+ * OpenAPI 3 description of the HTTP API, served at /api/openapi.json.
+ * Request bodies reuse the validation schemas from shared/api.ts; response
+ * schemas are declared here against the shared interfaces, so a field added
+ * to an interface fails the type check until it is documented. The spec
+ * conformance test calls every operation and parses each response with the
+ * schema documented for its status.
+ */
+
+// zod infers every field as optional without strictNullChecks, so schemas
+// are checked against the shared interfaces by their field names
+type KeyMismatch<T, S extends z.ZodTypeAny> =
+  | Exclude<keyof T, keyof z.infer<S>>
+  | Exclude<keyof z.infer<S>, keyof T>;
+
+const documents =
+  <T>() =>
+  <S extends z.ZodTypeAny>(
+    schema: S &
+      ([KeyMismatch<T, S>] extends [never]
+        ? unknown
+        : { mismatchedFields: KeyMismatch<T, S> }),
+  ): S =>
+    schema;
+
+// Response schemas reject unknown fields so undocumented output is caught
+const priceLineSchema = documents<PriceLine>()(
+  z.object({ net: z.number(), vat: z.number(), gross: z.number() }).strict(),
+);
+
+const priceBreakdownSchema = documents<PriceBreakdown>()(
+  z
+    .object({
+      vatRate: z.number().describe("VAT rate applied, e.g. 0.12"),
+      delivery: priceLineSchema,
+      codFee: priceLineSchema,
+      declaredValueFee: priceLineSchema,
+      total: priceLineSchema,
+    })
+    .strict()
+    .describe("Itemized cost of one quote in UZS with VAT shown separately"),
+);
+
+const tariffPriceSchema = documents<TariffPrice>()(
+  z
+    .object({
+      id: z.number(),
+      name: z.string(),
+      courier_type: z
+        .object({ type: z.string(), icon: z.string(), sort_order: z.number() })
+        .strict(),
+      rule_id: z.number(),
+      has_supplier: z.boolean(),
+      price: z
+        .object({
+          id: z.number(),
+          distance: z.number(),
+          duration: z.number(),
+          total: z.number(),
+          currency: z.string().optional(),
+          delivery_time_min: z.number().optional(),
+          delivery_time_max: z.number().optional(),
+        })
+        .strict(),
+      estimate: z
+        .boolean()
+        .optional()
+        .describe("Priced from the local rate card, not the gateway"),
+      breakdown: priceBreakdownSchema.optional(),
+    })
+    .strict(),
+);
+
+const parcelWeightsSchema = documents<ParcelWeights>()(
+  z
+    .object({
+      physical: z.number().describe("Weight as entered, kg"),
+      volumetric: z
+        .number()
+        .describe("(L × W × H) / 6000, kg; 0 when no dimensions were given"),
+      chargeable: z
+        .number()
+        .describe("The larger of the two, used for pricing"),
+    })
+    .strict(),
+);
+
+const priceListSchema = z
+  .object({ total: z.number().int(), list: z.array(tariffPriceSchema) })
+  .strict();
+
+const fieldErrorSchema = documents<FieldError>()(
+  z
+    .object({ code: z.string(), path: z.string(), message: z.string() })
+    .strict(),
+);
+
+const validationErrorSchema = documents<ValidationErrorResponse>()(
+  z
+    .object({
+      error: z.string(),
+      code: z.literal("VALIDATION_ERROR"),
+      errors: z.array(fieldErrorSchema),
+    })
+    .strict(),
+);
+
+const errorResponseSchema = documents<ErrorResponse>()(
+  z
+    .object({
+      error: z.string(),
+      code: z
+        .enum([
+          "RATE_LIMITED",
+          "GATEWAY_UNAVAILABLE",
+          "GATEWAY_TIMEOUT",
+          "SHIPMENT_REJECTED",
+        ])
+        .optional(),
+      details: z.string(),
+    })
+    .strict(),
+);
+
+const exclusionReasonSchema = z.enum([
+  "NO_ORIGIN_OFFICE",
+  "NO_DESTINATION_OFFICE",
+  "NO_DESTINATION_LOCKER",
+]);
+
+const tariffUnavailableSchema = documents<TariffUnavailableResponse>()(
+  z
+    .object({
+      error: z.string(),
+      code: z.literal("TARIFF_UNAVAILABLE"),
+      reason: exclusionReasonSchema,
+      details: z.string(),
+    })
+    .strict(),
+);
+
+const tariffAvailabilitySchema = documents<TariffAvailability>()(
+  z
+    .object({
+      tariff_type: tariffTypeSchema,
+      available: z.boolean(),
+      reason: exclusionReasonSchema
+        .optional()
+        .describe("Why the type is unavailable, absent when available"),
+    })
+    .strict(),
+);
+
+const availabilityResponseSchema = documents<AvailabilityResponse>()(
+  z
+    .object({
+      origin: z.number().int(),
+      destination: z.number().int(),
+      data: z.array(tariffAvailabilitySchema),
+    })
+    .strict(),
+);
+
+// Errors of the region and admin routes, which carry no details
+const simpleErrorSchema = z
+  .object({ error: z.string(), details: z.string().optional() })
+  .strict();
+
+const cacheKeySchema = z.enum(["cities", "warehouses", "lockers"]);
+
+const unknownCacheKeySchema = z
+  .object({ error: z.string(), allowed: z.array(cacheKeySchema) })
+  .strict();
+
+const citySchema = documents<City>()(
+  z
+    .object({
+      id: z.number(),
+      name: z.string(),
+      center_latitude: z.number(),
+      center_longitude: z.number(),
+      country_id: z.number(),
+      status: z.string(),
+    })
+    .strict(),
+);
+
+const warehouseSchema = documents<Warehouse>()(
+  z
+    .object({
+      id: z.number(),
+      name: z.string(),
+      city: z.string(),
+      city_id: z
+        .number()
+        .int()
+        .optional()
+        .describe("shipox_id of the city, when the gateway sends it"),
+      address: z.string(),
+      lat: z.number(),
+      lon: z.number(),
+      phone: z.string().optional(),
+      status: z.string(),
+      type: z.string(),
+    })
+    .strict(),
+);
+
+const nearestWarehouseSchema = documents<NearestWarehouse>()(
+  warehouseSchema.extend({
+    distanceKm: z
+      .number()
+      .describe("Great-circle distance from the given point, km"),
+  }),
+);
+
+const nearestWarehousesResponseSchema = documents<NearestWarehousesResponse>()(
+  z.object({ data: z.array(nearestWarehouseSchema) }).strict(),
+);
+
+// Paging fields are passed through from the gateway when it sends them
+const catalogPage = <T extends z.ZodTypeAny>(record: T) =>
+  z
+    .object({
+      data: z.array(record),
+      totalElements: z.number().optional(),
+      totalPages: z.number().optional(),
+      last: z.boolean().optional(),
+      first: z.boolean().optional(),
+      numberOfElements: z.number().optional(),
+      size: z.number().optional(),
+      number: z.number().optional(),
+    })
+    .strict();
+
+const citiesResponseSchema = catalogPage(citySchema);
+const warehousesResponseSchema = catalogPage(warehouseSchema);
+
+const tariffCalculationResponseSchema = documents<TariffCalculationResponse>()(
+  z
+    .object({
+      data: priceListSchema,
+      weights: parcelWeightsSchema,
+      estimate: z
+        .boolean()
+        .describe("True when the prices come from the rate card"),
+    })
+    .strict(),
+);
+
+const allTariffsResponseSchema = documents<AllTariffsResponse>()(
+  z
+    .object({
+      data: priceListSchema,
+      cheapest: tariffTypeSchema.nullable(),
+      fastest: tariffTypeSchema.nullable(),
+      excluded: z.array(
+        z
+          .object({
+            tariff_type: tariffTypeSchema,
+            reason: exclusionReasonSchema,
+          })
+          .strict(),
+      ),
+      failed: z.array(
+        z.object({ tariff_type: tariffTypeSchema, error: z.string() }).strict(),
+      ),
+      weights: parcelWeightsSchema,
+      estimate: z
+        .boolean()
+        .describe("True when any price comes from the rate card"),
+    })
+    .strict(),
+);
+
+const shipmentIdSchema = z.union([z.string(), z.number()]).optional();
+
+const batchResultSchema = documents<BatchTariffResult>()(
+  z.discriminatedUnion("status", [
+    z
+      .object({
+        index: z.number().int(),
+        id: shipmentIdSchema,
+        status: z.literal("ok"),
+        data: priceListSchema,
+        weights: parcelWeightsSchema,
+        estimate: z.boolean(),
+      })
+      .strict(),
+    z
+      .object({
+        index: z.number().int(),
+        id: shipmentIdSchema,
+        status: z.literal("error"),
+        error: z.string(),
+        errors: z.array(fieldErrorSchema).optional(),
+        code: z.literal("TARIFF_UNAVAILABLE").optional(),
+        reason: exclusionReasonSchema.optional(),
+      })
+      .strict(),
+  ]),
+);
+
+const batchTariffResponseSchema = documents<BatchTariffResponse>()(
+  z
+    .object({
+      data: z.array(batchResultSchema),
+      total: z.number().int(),
+      succeeded: z.number().int(),
+      failed: z.number().int(),
+    })
+    .strict(),
+);
+
+// The handler validates shipments one by one; this is what each should be
+const batchTariffBodySchema = z.object({
+  shipments: z.array(batchShipmentSchema).min(1).max(MAX_BATCH_SIZE),
+});
+
+const namesSchema = z
+  .object({ uz: z.string(), ru: z.string(), en: z.string() })
+  .strict();
+
+const regionSchema = documents<Region>()(
+  z.object({ id: z.string(), names: namesSchema }).strict(),
+);
+
+const regionCitySchema = documents<RegionCity>()(
+  z
+    .object({
+      shipox_id: z.number().int(),
+      region_id: z.string(),
+      names: namesSchema,
+    })
+    .strict(),
+);
+
+const directoryVersionSchema = z
+  .string()
+  .describe("Version of the region and city directory");
+
+const regionsResponseSchema = documents<RegionsResponse>()(
+  z
+    .object({ version: directoryVersionSchema, data: z.array(regionSchema) })
+    .strict(),
+);
+
+const regionCitiesResponseSchema = documents<RegionCitiesResponse>()(
+  z
+    .object({
+      version: directoryVersionSchema,
+      data: z.array(regionCitySchema),
+    })
+    .strict(),
+);
+
+const citySearchResultSchema = documents<CitySearchResult>()(
+  regionCitySchema.extend({
+    region: regionSchema,
+    match: z
+      .enum(["prefix", "word", "fuzzy", "region"])
+      .describe(
+        "How the name matched, best first; region when only the region's name did",
+      ),
+  }),
+);
+
+const citySearchResponseSchema = documents<CitySearchResponse>()(
+  z
+    .object({
+      version: directoryVersionSchema,
+      data: z.array(citySearchResultSchema),
+    })
+    .strict(),
+);
+
+const timestampSchema = z.string().nullable();
+
+const catalogHealthSchema = documents<CatalogHealth>()(
+  z
+    .object({
+      loaded: z.boolean(),
+      records: z.number().int(),
+      fetchedAt: timestampSchema,
+      ageSeconds: z.number().nullable(),
+      stale: z.boolean(),
+    })
+    .strict(),
+);
+
+const healthFields = {
+  status: z.enum(["ok", "degraded"]),
+  version: z.string(),
+  uptimeSeconds: z.number(),
+  gateway: z
+    .object({
+      mode: z.enum(["live", "simulator"]),
+      circuit: z.enum(["closed", "open", "half-open"]),
+      reachable: z.boolean().nullable(),
+      lastSuccessAt: timestampSchema,
+      lastFailureAt: timestampSchema,
+      lastError: z.string().nullable(),
+      token: z
+        .object({ valid: z.boolean(), expiresAt: timestampSchema })
+        .strict(),
+    })
+    .strict(),
+  catalogs: z
+    .object({
+      cities: catalogHealthSchema,
+      warehouses: catalogHealthSchema,
+      lockers: catalogHealthSchema,
+    })
+    .strict(),
+};
+
+const healthResponseSchema = documents<HealthResponse>()(
+  z.object(healthFields).strict(),
+);
+
+const readinessCheckSchema = z
+  .object({ ok: z.boolean(), error: z.string().optional() })
+  .strict();
+
+const readinessResponseSchema = documents<ReadinessResponse>()(
+  z
+    .object({
+      ...healthFields,
+      ready: z.boolean(),
+      checks: z
+        .object({
+          gateway: readinessCheckSchema,
+          catalogs: readinessCheckSchema,
+        })
+        .strict(),
+    })
+    .strict(),
+);
+
+const schemaDiagnosticsSchema = documents<SchemaDiagnostics>()(
+  z
+    .object({
+      data: z.array(
+        z
+          .object({
+            kind: z.string(),
+            lastCheckedAt: timestampSchema,
+            lastPath: z.string().nullable(),
+            received: z.number().int(),
+            accepted: z.number().int(),
+            repaired: z.number().int(),
+            dropped: z.number().int(),
+            lastError: z.string().nullable(),
+            sampleIssues: z.array(
+              z
+                .object({
+                  action: z.enum(["repaired", "dropped"]),
+                  path: z.string(),
+                  message: z.string(),
+                })
+                .strict(),
+            ),
+          })
+          .strict(),
+      ),
+    })
+    .strict(),
+);
+
+const cityMatchMethodSchema = z.enum(["shipox_id", "name", "proximity"]);
+
+const warehouseCityMatchSchema = documents<WarehouseCityMatch>()(
+  z
+    .object({
+      warehouseId: z.number().int(),
+      warehouseCity: z.string().describe("City as the gateway spelled it"),
+      cityId: z.number().int().nullable(),
+      method: cityMatchMethodSchema.nullable(),
+      candidates: z
+        .array(z.number().int())
+        .describe("Other cities that matched as well"),
+    })
+    .strict(),
+);
+
+const warehouseMatchingSchema = documents<WarehouseMatchingDiagnostics>()(
+  z
+    .object({
+      total: z.number().int(),
+      byMethod: z
+        .object({
+          shipox_id: z.number().int(),
+          name: z.number().int(),
+          proximity: z.number().int(),
+        })
+        .strict(),
+      ambiguous: z.array(warehouseCityMatchSchema),
+      unmatched: z.array(warehouseCityMatchSchema),
+    })
+    .strict(),
+);
+
+const cachePurgeResponseSchema = documents<CachePurgeResponse>()(
+  z.object({ purged: z.array(cacheKeySchema) }).strict(),
+);
+
+const messageSchema = documents<DemoResponse>()(
+  z.object({ message: z.string() }).strict(),
+);
+
+// Only the top-level fields are fixed; the rest is checked by its own test
+const openApiDocumentSchema = z.object({
+  openapi: z.string(),
+  info: z.object({ title: z.string(), version: z.string() }),
+  paths: z.record(z.unknown()),
+  components: z.record(z.unknown()),
+});
+
+// Emitted under #/components/schemas and referenced from operations
+const NAMED_SCHEMAS: NamedSchemas = new Map<z.ZodTypeAny, string>([
+  [tariffTypeSchema, "TariffType"],
+  [tariffCalculationInputSchema, "TariffCalculationInput"],
+  [allTariffsInputSchema, "AllTariffsInput"],
+  [batchShipmentSchema, "BatchShipment"],
+  [priceLineSchema, "PriceLine"],
+  [priceBreakdownSchema, "PriceBreakdown"],
+  [tariffPriceSchema, "TariffPrice"],
+  [parcelWeightsSchema, "ParcelWeights"],
+  [fieldErrorSchema, "FieldError"],
+  [validationErrorSchema, "ValidationErrorResponse"],
+  [errorResponseSchema, "ErrorResponse"],
+  [exclusionReasonSchema, "TariffExclusionReason"],
+  [tariffUnavailableSchema, "TariffUnavailableResponse"],
+  [tariffAvailabilitySchema, "TariffAvailability"],
+  [citySchema, "City"],
+  [warehouseSchema, "Warehouse"],
+  [nearestWarehouseSchema, "NearestWarehouse"],
+  [tariffCalculationResponseSchema, "TariffCalculationResponse"],
+  [allTariffsResponseSchema, "AllTariffsResponse"],
+  [batchResultSchema, "BatchTariffResult"],
+  [batchTariffResponseSchema, "BatchTariffResponse"],
+  [regionSchema, "Region"],
+  [regionCitySchema, "RegionCity"],
+  [citySearchResultSchema, "CitySearchResult"],
+  [catalogHealthSchema, "CatalogHealth"],
+  [healthResponseSchema, "HealthResponse"],
+  [readinessResponseSchema, "ReadinessResponse"],
+  [warehouseCityMatchSchema, "WarehouseCityMatch"],
+]);
+
+export interface OperationParameter {
+  name: string;
+  in: "path" | "query" | "header";
+  required?: boolean;
+  description: string;
+  schema: z.ZodTypeAny;
+}
+
+export interface OperationResponse {
+  description: string;
+  /** Body schema, absent for empty responses */
+  schema?: z.ZodTypeAny;
+  /** Defaults to application/json */
+  contentType?: string;
+  headers?: string[];
+}
+
+export interface Operation {
+  method: "get" | "post";
+  /** Express route pattern, e.g. /api/regions/:regionId/cities */
+  path: string;
+  operationId: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  parameters?: OperationParameter[];
+  requestBody?: z.ZodTypeAny;
+  /** Requires the ADMIN_TOKEN bearer token */
+  admin?: boolean;
+  responses: Record<number, OperationResponse>;
+}
+
+const apiKeyParameter: OperationParameter = {
+  name: API_KEY_HEADER,
+  in: "header",
+  description: "Partner API key, raises the rate limit",
+  schema: z.string(),
+};
+
+const rateLimited: Record<number, OperationResponse> = {
+  429: {
+    description: "Rate limit exceeded",
+    schema: errorResponseSchema,
+    headers: ["Retry-After", "RateLimit-Limit", "RateLimit-Remaining"],
+  },
+};
+
+// Failures of routes that call the gateway, see sendError in routes/tariffs
+const gatewayErrors: Record<number, OperationResponse> = {
+  500: { description: "Unexpected error", schema: errorResponseSchema },
+  502: {
+    description: "The gateway sent an unusable payload",
+    schema: errorResponseSchema,
+  },
+  503: {
+    description: "The gateway circuit breaker is open",
+    schema: errorResponseSchema,
+    headers: ["Retry-After"],
+  },
+  504: { description: "The gateway timed out", schema: errorResponseSchema },
+};
+
+const calculation = (
+  operation: Pick<
+    Operation,
+    "path" | "operationId" | "summary" | "description" | "requestBody"
+  > & {
+    schema: z.ZodTypeAny;
+    responses?: Record<number, OperationResponse>;
+  },
+): Operation => ({
+  method: "post",
+  tag: "Tariffs",
+  operationId: operation.operationId,
+  path: operation.path,
+  summary: operation.summary,
+  description: operation.description,
+  parameters: [apiKeyParameter],
+  requestBody: operation.requestBody,
+  responses: {
+    200: { description: "Prices", schema: operation.schema },
+    400: {
+      description: "The request body failed validation",
+      schema: validationErrorSchema,
+    },
+    ...operation.responses,
+    ...rateLimited,
+    ...gatewayErrors,
+  },
+});
+
+const catalog = (
+  path: string,
+  operationId: string,
+  summary: string,
+  schema: z.ZodTypeAny,
+): Operation => ({
+  method: "get",
+  path,
+  operationId,
+  tag: "Catalogs",
+  summary,
+  description:
+    "Served from the server's cache with ETag and Last-Modified; send If-None-Match to revalidate.",
+  parameters: [apiKeyParameter],
+  responses: {
+    200: {
+      description: "The full list",
+      schema,
+      headers: ["ETag", "Last-Modified", "X-Cache"],
+    },
+    304: { description: "Not modified since the given ETag" },
+    ...rateLimited,
+    ...gatewayErrors,
+  },
+});
+
+export const OPERATIONS: Operation[] = [
+  calculation({
+    path: "/api/calculate-tariff",
+    operationId: "calculateTariff",
+    summary: "Quote one tariff type",
+    description:
+      "Prices come from the gateway, or from the rate card with estimate: true when it cannot quote.",
+    requestBody: tariffCalculationInputSchema,
+    schema: tariffCalculationResponseSchema,
+    responses: {
+      422: {
+        description:
+          "The cities have no office or locker the tariff type needs (TARIFF_UNAVAILABLE), or the gateway refused the shipment (SHIPMENT_REJECTED)",
+        schema: z.union([tariffUnavailableSchema, errorResponseSchema]),
+      },
+    },
+  }),
+  calculation({
+    path: "/api/calculate-tariff/all",
+    operationId: "calculateAllTariffs",
+    summary: "Quote every tariff type",
+    description:
+      "Sorted by price, then delivery time. With city ids, types the cities have no office or locker for are excluded.",
+    requestBody: allTariffsInputSchema,
+    schema: allTariffsResponseSchema,
+  }),
+  calculation({
+    path: "/api/calculate-tariff/batch",
+    operationId: "calculateTariffBatch",
+    summary: `Quote up to ${MAX_BATCH_SIZE} shipments`,
+    description:
+      "Shipments are validated and quoted one by one; a failed shipment is reported in its result and does not fail the batch.",
+    requestBody: batchTariffBodySchema,
+    schema: batchTariffResponseSchema,
+  }),
+  catalog(
+    "/api/cities",
+    "getCities",
+    "List gateway cities",
+    citiesResponseSchema,
+  ),
+  catalog(
+    "/api/warehouses",
+    "getWarehouses",
+    "List post offices",
+    warehousesResponseSchema,
+  ),
+  catalog(
+    "/api/lockers",
+    "getLockers",
+    "List lockers",
+    warehousesResponseSchema,
+  ),
+  {
+    method: "get",
+    path: "/api/warehouses/nearest",
+    operationId: "getNearestWarehouses",
+    tag: "Catalogs",
+    summary: "Find the offices and lockers closest to a point",
+    description: "Sorted by great-circle distance, closest first.",
+    parameters: [
+      ...(["lat", "lon", "type", "limit"] as const).map((name) => ({
+        name,
+        in: "query" as const,
+        required: name === "lat" || name === "lon",
+        description: {
+          lat: "Latitude of the point",
+          lon: "Longitude of the point",
+          type: "POST_OFFICE or LOCKER, both when omitted",
+          limit: "Number of points to return",
+        }[name],
+        schema: nearestWarehousesQuerySchema.shape[name],
+      })),
+      apiKeyParameter,
+    ],
+    responses: {
+      200: {
+        description: "Closest points",
+        schema: nearestWarehousesResponseSchema,
+      },
+      400: {
+        description: "The query failed validation",
+        schema: validationErrorSchema,
+      },
+      ...rateLimited,
+      ...gatewayErrors,
+    },
+  },
+  {
+    method: "get",
+    path: "/api/availability",
+    operationId: "getAvailability",
+    tag: "Tariffs",
+    summary: "Check which tariff types can run between two cities",
+    description:
+      "A type is unavailable when a city has no office or locker it needs; the reason code is the one POST /api/calculate-tariff rejects it with.",
+    parameters: [
+      {
+        name: "origin",
+        in: "query",
+        required: true,
+        description: "shipox_id of the origin city",
+        schema: availabilityQuerySchema.shape.origin,
+      },
+      {
+        name: "destination",
+        in: "query",
+        required: true,
+        description: "shipox_id of the destination city",
+        schema: availabilityQuerySchema.shape.destination,
+      },
+      apiKeyParameter,
+    ],
+    responses: {
+      200: {
+        description: "One entry per tariff type",
+        schema: availabilityResponseSchema,
+      },
+      400: {
+        description: "Missing, malformed or unknown city ids",
+        schema: validationErrorSchema,
+      },
+      ...rateLimited,
+      ...gatewayErrors,
+    },
+  },
+  {
+    method: "get",
+    path: "/api/regions",
+    operationId: "getRegions",
+    tag: "Regions",
+    summary: "List regions",
+    parameters: [apiKeyParameter],
+    responses: {
+      200: { description: "All regions", schema: regionsResponseSchema },
+      ...rateLimited,
+      500: { description: "Unexpected error", schema: simpleErrorSchema },
+    },
+  },
+  {
+    method: "get",
+    path: "/api/regions/:regionId/cities",
+    operationId: "getRegionCities",
+    tag: "Regions",
+    summary: "List the cities and districts of a region",
+    description: "An unknown region has no cities.",
+    parameters: [
+      {
+        name: "regionId",
+        in: "path",
+        required: true,
+        description: "Region id from /api/regions, e.g. toshkent-shahri",
+        schema: z.string(),
+      },
+      apiKeyParameter,
+    ],
+    responses: {
+      200: {
+        description: "Cities of the region",
+        schema: regionCitiesResponseSchema,
+      },
+      400: { description: "No region id given", schema: simpleErrorSchema },
+      ...rateLimited,
+      500: { description: "Unexpected error", schema: simpleErrorSchema },
+    },
+  },
+  {
+    method: "get",
+    path: "/api/cities/search",
+    operationId: "searchCities",
+    tag: "Regions",
+    summary: "Search region cities by name",
+    description:
+      "Matches uz, ru and en names. Names starting with q come first, then names with a word starting with q, then near misses.",
+    parameters: [
+      ...(["q", "lang", "limit"] as const).map((name) => ({
+        name,
+        in: "query" as const,
+        required: name === "q",
+        description: {
+          q: "What the user typed",
+          lang: "Preferred language for ties and ordering",
+          limit: "Number of cities to return",
+        }[name],
+        schema: citySearchQuerySchema.shape[name],
+      })),
+      apiKeyParameter,
+    ],
+    responses: {
+      200: {
+        description: "Best matches first",
+        schema: citySearchResponseSchema,
+      },
+      400: {
+        description: "The query failed validation",
+        schema: validationErrorSchema,
+      },
+      ...rateLimited,
+      500: { description: "Unexpected error", schema: errorResponseSchema },
+    },
+  },
+  {
+    method: "get",
+    path: "/api/health",
+    operationId: "getHealth",
+    tag: "Operations",
+    summary: "Liveness probe",
+    description:
+      "Reports what the server already knows without calling the gateway. Not rate limited.",
+    responses: {
+      200: { description: "Server status", schema: healthResponseSchema },
+    },
+  },
+  {
+    method: "get",
+    path: "/api/ready",
+    operationId: "getReady",
+    tag: "Operations",
+    summary: "Readiness probe",
+    description:
+      "Authenticates with the gateway and loads the catalogs if needed. Not rate limited.",
+    responses: {
+      200: { description: "Ready to serve", schema: readinessResponseSchema },
+      503: { description: "A check failed", schema: readinessResponseSchema },
+    },
+  },
+  {
+    method: "get",
+    path: "/api/metrics",
+    operationId: "getMetrics",
+    tag: "Operations",
+    summary: "Prometheus metrics",
+    responses: {
+      200: {
+        description: "Text exposition format 0.0.4",
+        schema: z.string(),
+        contentType: "text/plain",
+      },
+    },
+  },
+  {
+    method: "get",
+    path: "/api/diagnostics/schema",
+    operationId: "getSchemaDiagnostics",
+    tag: "Operations",
+    summary: "Gateway payload drift counters",
+    parameters: [apiKeyParameter],
+    responses: {
+      200: {
+        description: "One report per payload kind",
+        schema: schemaDiagnosticsSchema,
+      },
+      ...rateLimited,
+    },
+  },
+  {
+    method: "get",
+    path: "/api/diagnostics/warehouses",
+    operationId: "getWarehouseMatching",
+    tag: "Operations",
+    summary: "How offices and lockers were linked to catalog cities",
+    description:
+      "Lists offices and lockers whose city matched more than one catalog city, or none.",
+    parameters: [apiKeyParameter],
+    responses: {
+      200: {
+        description: "Matching summary",
+        schema: warehouseMatchingSchema,
+      },
+      ...rateLimited,
+      ...gatewayErrors,
+    },
+  },
+  {
+    method: "post",
+    path: "/api/admin/cache/purge",
+    operationId: "purgeCache",
+    tag: "Admin",
+    summary: "Drop cached catalogs",
+    admin: true,
+    parameters: [
+      {
+        name: "key",
+        in: "query",
+        description: "Catalog to purge, all of them when omitted",
+        schema: cacheKeySchema,
+      },
+    ],
+    responses: {
+      200: { description: "Purged keys", schema: cachePurgeResponseSchema },
+      400: { description: "Unknown cache key", schema: unknownCacheKeySchema },
+      401: {
+        description: "Missing or wrong admin token",
+        schema: simpleErrorSchema,
+      },
+      403: {
+        description: "Admin endpoints are disabled, ADMIN_TOKEN is not set",
+        schema: simpleErrorSchema,
+      },
+    },
+  },
+  {
+    method: "get",
+    path: "/api/openapi.json",
+    operationId: "getOpenApiDocument",
+    tag: "Documentation",
+    summary: "This document",
+    responses: {
+      200: { description: "OpenAPI 3 document", schema: openApiDocumentSchema },
+      ...rateLimited,
+    },
+  },
+  {
+    method: "get",
+    path: "/api/docs",
+    operationId: "getDocs",
+    tag: "Documentation",
+    summary: "Rendered API documentation",
+    responses: {
+      200: {
+        description: "HTML page",
+        schema: z.string(),
+        contentType: "text/html",
+      },
+      ...rateLimited,
+    },
+  },
+  {
+    method: "get",
+    path: "/api/ping",
+    operationId: "ping",
+    tag: "Examples",
+    summary: "Check that the server answers",
+    responses: {
+      200: { description: "Greeting", schema: messageSchema },
+      ...rateLimited,
+    },
+  },
+  {
+    method: "get",
+    path: "/api/demo",
+    operationId: "getDemo",
+    tag: "Examples",
+    summary: "Example response",
+    responses: {
+      200: { description: "Greeting", schema: messageSchema },
+      ...rateLimited,
+    },
+  },
+];
+
+/** Express `:param` segments in OpenAPI `{param}` form */
+export const toOpenApiPath = (path: string) => path.replace(/:(\w+)/g, "{$1}");
+
+export function findOperation(method: string, path: string) {
+  return OPERATIONS.find(
+    (operation) =>
+      operation.method === method.toLowerCase() && operation.path === path,
+  );
+}
+
+const STATUS_HEADERS: Record<string, string> = {
+  "Retry-After": "Seconds until the request may be retried",
+  "RateLimit-Limit": "Requests allowed per minute",
+  "RateLimit-Remaining": "Requests left in the current window",
+  ETag: "Validator for If-None-Match",
+  "Last-Modified": "When the list was fetched from the gateway",
+  "X-Cache": "HIT, STALE or MISS",
+};
+
+function describeOperation(operation: Operation) {
+  const schema = (value: z.ZodTypeAny) =>
+    toJsonSchema(value, NAMED_SCHEMAS, false);
+
+  return {
+    operationId: operation.operationId,
+    tags: [operation.tag],
+    summary: operation.summary,
+    ...(operation.description ? { description: operation.description } : {}),
+    ...(operation.admin ? { security: [{ adminToken: [] }] } : {}),
+    ...(operation.parameters
+      ? {
+          parameters: operation.parameters.map((parameter) => ({
+            name: parameter.name,
+            in: parameter.in,
+            required: parameter.required ?? false,
+            description: parameter.description,
+            schema: schema(parameter.schema),
+          })),
+        }
+      : {}),
+    ...(operation.requestBody
+      ? {
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": { schema: schema(operation.requestBody) },
+            },
+          },
+        }
+      : {}),
+    responses: Object.fromEntries(
+      Object.entries(operation.responses).map(([status, response]) => [
+        status,
+        {
+          description: response.description,
+          ...(response.headers
+            ? {
+                headers: Object.fromEntries(
+                  response.headers.map((name) => [
+                    name,
+                    {
+                      description: STATUS_HEADERS[name],
+                      schema: { type: "string" },
+                    },
+                  ]),
+                ),
+              }
+            : {}),
+          ...(response.schema
+            ? {
+                content: {
+                  [response.contentType ?? "application/json"]: {
+                    schema: schema(response.schema),
+                  },
+                },
+              }
+            : {}),
+        },
+      ]),
+    ),
+  };
+}
+
+export function buildOpenApiDocument(version: string) {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const operation of OPERATIONS) {
+    const path = toOpenApiPath(operation.path);
+    paths[path] = {
+      ...paths[path],
+      [operation.method]: describeOperation(operation),
+    };
+  }
+
+  const schemas: Record<string, JsonSchema> = {};
+  for (const [schema, name] of NAMED_SCHEMAS) {
+    schemas[name] = toJsonSchema(schema, NAMED_SCHEMAS);
+  }
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "FARGO tariff calculator API",
+      version,
+      description: `Tariff quotes, reference lists and regions for FARGO deliveries in Uzbekistan. Tariff types: ${TARIFF_TYPES.join(", ")}.`,
+    },
+    servers: [{ url: "/" }],
+    tags: [
+      "Tariffs",
+      "Catalogs",
+      "Regions",
+      "Operations",
+      "Admin",
+      "Documentation",
+      "Examples",
+    ].map((name) => ({ name })),
+    paths,
+    components: {
+      schemas,
+      securitySchemes: {
+        adminToken: {
+          type: "http",
+          scheme: "bearer",
+          description: "The ADMIN_TOKEN configured on the server",
+        },
+      },
+    },
+  };
+}
+
+export type OpenApiDocument = ReturnType<typeof buildOpenApiDocument>;
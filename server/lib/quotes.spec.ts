@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { Request } from "express";
+import { loadConfig } from "../config";
+import {
+  GatewayError,
+  GatewayTimeoutError,
+  GatewayUnavailableError,
+  PriceQuery,
+} from "./gateway";
+import { createLogger, setDefaultLogger } from "./logger";
+import { createServerMetrics } from "./metrics";
+import { GatewaySchemaError } from "./normalize";
+import { ShipmentRejectedError, getQuotes } from "./quotes";
+
+const tashkentToSamarkand: PriceQuery = {
+  from_latitude: 41.311081,
+  from_longitude: 69.240562,
+  to_latitude: 39.654167,
+  to_longitude: 66.959722,
+  weight: 2,
+  courier_type: "OFFICE_OFFICE",
+};
+
+beforeAll(() => {
+  setDefaultLogger(createLogger({ level: "silent" }));
+});
+
+// A request whose gateway fails every price call with `error`
+function failingRequest(error: unknown) {
+  return {
+    app: {
+      locals: {
+        config: loadConfig({
+          FARGO_GATEWAY_MODE: "simulator",
+          LOG_LEVEL: "silent",
+        }),
+        metrics: createServerMetrics("test"),
+        gateway: {
+          getPrices: async () => {
+            throw error;
+          },
+        },
+      },
+    },
+  } as unknown as Request;
+}
+
+describe("getQuotes", () => {
+  it.each([
+    ["a 5xx", new GatewayError("failed", 502)],
+    ["a refused token", new GatewayError("Auth failed: 401", 401)],
+    ["a timeout", new GatewayTimeoutError("/api/v2/prices", 10_000)],
+    ["an open circuit", new GatewayUnavailableError(30_000)],
+    ["a schema error", new GatewaySchemaError("No list found", "prices")],
+    ["a network error", new TypeError("fetch failed")],
+  ])("should estimate on %s", async (_name, error) => {
+    const quotes = await getQuotes(failingRequest(error), tashkentToSamarkand);
+
+    expect(quotes.estimate).toBe(true);
+    expect(quotes.list[0].price.total).toBe(35000);
+  });
+
+  it("should reject shipments the gateway refuses", async () => {
+    const error = new GatewayError(
+      "Gateway request failed: 400",
+      400,
+      "Weight exceeds the tariff limit",
+    );
+
+    const rejection = getQuotes(failingRequest(error), tashkentToSamarkand);
+
+    await expect(rejection).rejects.toBeInstanceOf(ShipmentRejectedError);
+    await expect(rejection).rejects.toMatchObject({
+      status: 400,
+      message: "Weight exceeds the tariff limit",
+    });
+  });
+});
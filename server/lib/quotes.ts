@@ -0,0 +1,125 @@
+import { Request } from "express";
+import { TariffPrice } from "@shared/api";
+import { calculatePriceBreakdown, quoteFromRateCard } from "@shared/pricing";
+import { ServerConfig } from "../config";
+import { GatewayError, PriceQuery, getGateway } from "./gateway";
+import { getLogger } from "./logger";
+import { getMetrics } from "./metrics";
+
+/**
+ * Gateway prices with the rate card as a fallback.
+ * When the gateway cannot quote (it is down, slow, unreachable, answers
+ * malformed data or refuses our credentials) and the rate card covers the
+ * shipment, the estimate is returned instead of the error. A shipment the
+ * gateway rejects as invalid is not estimated but fails with
+ * ShipmentRejectedError.
+ */
+
+export interface Quotes {
+  list: TariffPrice[];
+  estimate: boolean;
+}
+
+export interface QuoteFees {
+  cod_amount?: number;
+  declared_value?: number;
+}
+
+// Shapes a rate card quote like a gateway price so clients render it as one
+function toTariffPrice(query: PriceQuery): TariffPrice | null {
+  const quote = quoteFromRateCard({
+    ...query,
+    tariff_type: query.courier_type,
+  });
+  if (!quote) return null;
+
+  return {
+    id: 0,
+    name: "",
+    courier_type: { type: quote.tariff_type, icon: "", sort_order: 0 },
+    rule_id: 0,
+    has_supplier: false,
+    price: {
+      id: 0,
+      distance: 0,
+      duration: 0,
+      total: quote.total,
+      currency: "UZS",
+    },
+    estimate: true,
+  };
+}
+
+/** The gateway refused to price the shipment, e.g. over a weight limit */
+export class ShipmentRejectedError extends GatewayError {
+  constructor(cause: GatewayError) {
+    super(
+      cause.upstreamMessage ?? cause.message,
+      cause.status,
+      cause.upstreamMessage,
+    );
+    this.name = "ShipmentRejectedError";
+  }
+}
+
+// Statuses that mean the gateway could not quote rather than that it
+// rejected the shipment
+const OUTAGE_STATUSES = new Set([401, 403, 408, 429]);
+
+function isOutage(error: unknown): boolean {
+  if (!(error instanceof GatewayError) || error.status === undefined) {
+    return true;
+  }
+  return error.status >= 500 || OUTAGE_STATUSES.has(error.status);
+}
+
+export async function getQuotes(
+  req: Request,
+  query: PriceQuery,
+): Promise<Quotes> {
+  const { quotes } = getMetrics(req);
+
+  try {
+    const list = await getGateway(req).getPrices(query);
+    quotes.inc({ tariff_type: query.courier_type, source: "gateway" });
+    return { list, estimate: false };
+  } catch (error) {
+    if (!isOutage(error)) {
+      throw new ShipmentRejectedError(error as GatewayError);
+    }
+
+    const config = req.app.locals.config as ServerConfig;
+    const estimate =
+      config.pricing.fallback === "rate-card" ? toTariffPrice(query) : null;
+    if (!estimate) throw error;
+
+    getLogger().warn("Gateway could not quote, using the rate card", {
+      tariffType: query.courier_type,
+      error,
+    });
+    quotes.inc({ tariff_type: query.courier_type, source: "rate_card" });
+    return { list: [estimate], estimate: true };
+  }
+}
+
+/**
+ * Attaches the itemized delivery, COD and declared-value costs to each
+ * price, with VAT at the configured rate
+ */
+export function addBreakdown(
+  req: Request,
+  list: TariffPrice[],
+  fees: QuoteFees,
+): TariffPrice[] {
+  const config = req.app.locals.config as ServerConfig;
+
+  return list.map((tariff) => ({
+    ...tariff,
+    breakdown: calculatePriceBreakdown({
+      delivery: tariff.price.total,
+      codAmount: fees.cod_amount,
+      declaredValue: fees.declared_value,
+      vatRate: config.pricing.vatRate,
+    }),
+  }));
+}
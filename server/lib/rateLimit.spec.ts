@@ -0,0 +1,64 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createRateLimiter } from "./rateLimit";
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("createRateLimiter", () => {
+  it("should allow a burst of up to the per-minute limit", () => {
+    const limiter = createRateLimiter(3);
+
+    expect(limiter.take("client").remaining).toBe(2);
+    expect(limiter.take("client").remaining).toBe(1);
+    expect(limiter.take("client").allowed).toBe(true);
+
+    expect(limiter.take("client")).toEqual({
+      allowed: false,
+      remaining: 0,
+      retryAfterMs: 20_000,
+    });
+  });
+
+  it("should refill continuously", () => {
+    const limiter = createRateLimiter(60);
+    for (let i = 0; i < 60; i++) limiter.take("client");
+
+    expect(limiter.take("client").allowed).toBe(false);
+    vi.advanceTimersByTime(1000);
+    expect(limiter.take("client").allowed).toBe(true);
+    expect(limiter.take("client").allowed).toBe(false);
+  });
+
+  it("should take several tokens for a weighted request", () => {
+    const limiter = createRateLimiter(10);
+
+    expect(limiter.take("client", 6).remaining).toBe(4);
+    expect(limiter.take("client", 6)).toEqual({
+      allowed: false,
+      remaining: 4,
+      retryAfterMs: 12_000,
+    });
+    expect(limiter.take("client").allowed).toBe(true);
+  });
+
+  it("should let a request larger than the bucket through once it is full", () => {
+    const limiter = createRateLimiter(10);
+
+    expect(limiter.take("client", 25).allowed).toBe(true);
+    // 15 tokens of debt to repay before the next one
+    expect(limiter.take("client").retryAfterMs).toBe(96_000);
+  });
+
+  it("should keep a separate bucket per client", () => {
+    const limiter = createRateLimiter(1);
+
+    expect(limiter.take("first").allowed).toBe(true);
+    expect(limiter.take("second").allowed).toBe(true);
+    expect(limiter.take("first").allowed).toBe(false);
+  });
+});
@@ -0,0 +1,165 @@
+import { Request, RequestHandler } from "express";
+import { createHash, timingSafeEqual } from "crypto";
+import { ErrorResponse } from "@shared/api";
+import { EndpointClass, RateLimitConfig } from "../config";
+import { getLogger } from "./logger";
+
+/**
+ * Token-bucket rate limiting per client.
+ * Each client gets a bucket holding up to a minute's worth of requests that
+ * refills continuously, so short bursts pass while the sustained rate stays
+ * at the configured limit. Clients sending a configured X-API-Key get their
+ * own, larger bucket; everyone else is limited per IP address. Routes that
+ * do the work of several requests, like batches, take one token per unit.
+ */
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** Whole requests left in the bucket */
+  remaining: number;
+  /** Time until the next request would be allowed, 0 when allowed */
+  retryAfterMs: number;
+}
+
+export interface RateLimiter {
+  /** Takes `cost` requests' worth of tokens, 1 by default */
+  take(key: string, cost?: number): RateLimitDecision;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Idle clients are forgotten once their bucket has refilled
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export function createRateLimiter(perMinute: number): RateLimiter {
+  const buckets = new Map<string, Bucket>();
+  const refillPerMs = perMinute / 60_000;
+  let sweptAt = Date.now();
+
+  function sweep(now: number) {
+    if (now - sweptAt < SWEEP_INTERVAL_MS) return;
+    sweptAt = now;
+    for (const [key, bucket] of buckets) {
+      if (bucket.tokens + (now - bucket.updatedAt) * refillPerMs >= perMinute) {
+        buckets.delete(key);
+      }
+    }
+  }
+
+  return {
+    take(key, cost = 1) {
+      const now = Date.now();
+      sweep(now);
+
+      const bucket = buckets.get(key) ?? { tokens: perMinute, updatedAt: now };
+      bucket.tokens = Math.min(
+        perMinute,
+        bucket.tokens + (now - bucket.updatedAt) * refillPerMs,
+      );
+      bucket.updatedAt = now;
+      buckets.set(key, bucket);
+
+      // A request costing more than the whole bucket passes once it is
+      // full and leaves the client in debt until it has refilled
+      const required = Math.min(cost, perMinute);
+      if (bucket.tokens < required) {
+        return {
+          allowed: false,
+          remaining: Math.max(0, Math.floor(bucket.tokens)),
+          retryAfterMs: Math.ceil((required - bucket.tokens) / refillPerMs),
+        };
+      }
+
+      bucket.tokens -= cost;
+      return {
+        allowed: true,
+        remaining: Math.max(0, Math.floor(bucket.tokens)),
+        retryAfterMs: 0,
+      };
+    },
+  };
+}
+
+export const API_KEY_HEADER = "X-API-Key";
+
+function isKnownApiKey(provided: string, apiKeys: string[]): boolean {
+  const digest = (key: string) => createHash("sha256").update(key).digest();
+  const providedDigest = digest(provided);
+  return apiKeys.some((key) => timingSafeEqual(digest(key), providedDigest));
+}
+
+/** How many requests one call counts as, e.g. the shipments of a batch */
+export type RequestCost = (req: Request) => number;
+
+export interface RateLimitMiddleware extends RequestHandler {
+  /** The same buckets, charging `cost` tokens per call */
+  weighted(cost: RequestCost): RequestHandler;
+}
+
+/**
+ * Limits one class of endpoints. Each call creates separate buckets, so
+ * routes sharing a class must share the returned middleware.
+ */
+export function rateLimit(
+  endpointClass: EndpointClass,
+  config: RateLimitConfig,
+): RateLimitMiddleware {
+  const perMinute = config.perMinute[endpointClass];
+  if (perMinute === 0) {
+    const unlimited: RequestHandler = (_req, _res, next) => next();
+    return Object.assign(unlimited, { weighted: () => unlimited });
+  }
+
+  const byIp = createRateLimiter(perMinute);
+  const byApiKey = createRateLimiter(perMinute * config.apiKeyMultiplier);
+
+  const limited =
+    (cost: RequestCost): RequestHandler =>
+    (req, res, next) => {
+      const apiKey = req.get(API_KEY_HEADER);
+      const isApiKeyClient = !!apiKey && isKnownApiKey(apiKey, config.apiKeys);
+      const tokens = Math.max(1, cost(req));
+      // Unknown keys are ignored so they cannot be used to dodge the IP limit
+      const decision = isApiKeyClient
+        ? byApiKey.take(
+            createHash("sha256").update(apiKey).digest("hex"),
+            tokens,
+          )
+        : byIp.take(req.ip ?? "unknown", tokens);
+      const limit = isApiKeyClient
+        ? perMinute * config.apiKeyMultiplier
+        : perMinute;
+
+      res.set({
+        "RateLimit-Limit": limit.toString(),
+        "RateLimit-Remaining": decision.remaining.toString(),
+      });
+
+      if (decision.allowed) {
+        return next();
+      }
+
+      const retryAfterSeconds = Math.ceil(decision.retryAfterMs / 1000);
+      getLogger().warn("Rate limit exceeded", {
+        endpointClass,
+        client: isApiKeyClient ? "api-key" : "ip",
+        cost: tokens,
+      });
+
+      const response_data: ErrorResponse = {
+        error: "Too many requests",
+        code: "RATE_LIMITED",
+        details: `Limit of ${limit} ${endpointClass} requests per minute exceeded, retry in ${retryAfterSeconds} s`,
+      };
+      res.set("Retry-After", retryAfterSeconds.toString());
+      res.status(429).json(response_data);
+    };
+
+  return Object.assign(
+    limited(() => 1),
+    { weighted: limited },
+  );
+}
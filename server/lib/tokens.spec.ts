@@ -0,0 +1,113 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtemp, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import {
+  DEFAULT_TOKEN_LIFETIME_MS,
+  createFileTokenStore,
+  createKvTokenStore,
+  createLocalKv,
+  issueToken,
+  resolveTokenExpiry,
+} from "./tokens";
+
+const now = Date.UTC(2026, 0, 1);
+
+function jwt(payload: object) {
+  const encode = (value: object) =>
+    Buffer.from(JSON.stringify(value)).toString("base64url");
+  return `${encode({ alg: "HS512" })}.${encode(payload)}.signature`;
+}
+
+let directory: string | null = null;
+
+async function temporaryDirectory() {
+  directory = await mkdtemp(path.join(os.tmpdir(), "fargo-tokens-"));
+  return directory;
+}
+
+afterEach(async () => {
+  if (directory) await rm(directory, { recursive: true, force: true });
+  directory = null;
+});
+
+describe("resolveTokenExpiry", () => {
+  it("should use expires_in when the gateway sends it", () => {
+    expect(resolveTokenExpiry({ id_token: "t", expires_in: 600 }, now)).toBe(
+      now + 600_000,
+    );
+  });
+
+  it("should fall back to the JWT exp claim", () => {
+    const exp = now / 1000 + 3600;
+
+    expect(resolveTokenExpiry({ id_token: jwt({ exp }) }, now)).toBe(
+      exp * 1000,
+    );
+  });
+
+  it("should assume the default lifetime for opaque tokens", () => {
+    expect(resolveTokenExpiry({ id_token: "opaque" }, now)).toBe(
+      now + DEFAULT_TOKEN_LIFETIME_MS,
+    );
+  });
+});
+
+describe("issueToken", () => {
+  it("should refresh five minutes early", () => {
+    const token = issueToken({ id_token: "t", expires_in: 21600 }, now);
+
+    expect(token.refreshAt).toBe(token.expiresAt - 5 * 60_000);
+  });
+
+  it("should refresh short-lived tokens after 90% of their life", () => {
+    const token = issueToken({ id_token: "t", expires_in: 60 }, now);
+
+    expect(token.refreshAt).toBe(now + 54_000);
+  });
+});
+
+describe("createFileTokenStore", () => {
+  it("should keep tokens across store instances", async () => {
+    const file = path.join(await temporaryDirectory(), "token.json");
+    const token = { token: "t", expiresAt: now, refreshAt: now };
+
+    await createFileTokenStore(file).set("account", token);
+
+    expect(await createFileTokenStore(file).get("account")).toEqual(token);
+    expect(await createFileTokenStore(file).get("other")).toBeNull();
+  });
+
+  it("should delete tokens", async () => {
+    const file = path.join(await temporaryDirectory(), "token.json");
+    const store = createFileTokenStore(file);
+    await store.set("account", { token: "t", expiresAt: now, refreshAt: now });
+
+    await store.delete("account");
+
+    expect(await store.get("account")).toBeNull();
+  });
+});
+
+describe("createKvTokenStore", () => {
+  it("should keep tokens until they expire", async () => {
+    const kv = createLocalKv(await temporaryDirectory());
+    const valid = Date.now() + 60_000;
+
+    await createKvTokenStore(kv).set("valid", {
+      token: "t",
+      expiresAt: valid,
+      refreshAt: valid,
+    });
+    await createKvTokenStore(kv).set("expired", {
+      token: "t",
+      expiresAt: Date.now() - 1,
+      refreshAt: Date.now() - 1,
+    });
+
+    expect(await createKvTokenStore(kv).get("valid")).toMatchObject({
+      token: "t",
+    });
+    expect(await createKvTokenStore(kv).get("expired")).toBeNull();
+  });
+});
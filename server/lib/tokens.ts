@@ -0,0 +1,230 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { AuthResponse } from "@shared/api";
+
+/**
+ * Gateway token lifetime and storage.
+ * Serverless functions lose module state on every cold start, so tokens
+ * are kept in a TokenStore that can outlive the process: memory for a
+ * long-running server, a file or a key-value store for functions.
+ */
+
+export interface StoredToken {
+  token: string;
+  /** Epoch ms */
+  expiresAt: number;
+  /** Epoch ms from which the token is replaced, a little before it expires */
+  refreshAt: number;
+}
+
+export interface TokenStore {
+  get(key: string): Promise<StoredToken | null>;
+  set(key: string, token: StoredToken): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+/**
+ * The subset of a hosted key-value store (Netlify Blobs, Vercel KV, Redis)
+ * a token store needs; createLocalKv is a stand-in backed by a directory
+ */
+export interface KeyValueStore {
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, options?: { ttlMs?: number }): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// Used when the gateway sends neither expires_in nor a JWT with exp
+export const DEFAULT_TOKEN_LIFETIME_MS = 6 * 60 * 60 * 1000;
+
+// Replace tokens this long before they expire, or after 90% of a shorter life
+const TOKEN_EXPIRY_BUFFER_MS = 5 * 60 * 1000;
+
+function jwtExpiry(token: string): number | null {
+  const [, payload] = token.split(".");
+  if (!payload) return null;
+
+  try {
+    const { exp } = JSON.parse(Buffer.from(payload, "base64url").toString());
+    return typeof exp === "number" ? exp * 1000 : null;
+  } catch {
+    return null;
+  }
+}
+
+/** When a token expires: expires_in first, then the JWT exp claim */
+export function resolveTokenExpiry(
+  auth: AuthResponse,
+  now = Date.now(),
+): number {
+  if (typeof auth.expires_in === "number" && auth.expires_in > 0) {
+    return now + auth.expires_in * 1000;
+  }
+  return jwtExpiry(auth.id_token) ?? now + DEFAULT_TOKEN_LIFETIME_MS;
+}
+
+/** Wraps a freshly issued token with its expiry and refresh time */
+export function issueToken(auth: AuthResponse, now = Date.now()): StoredToken {
+  const expiresAt = resolveTokenExpiry(auth, now);
+  const buffer = Math.min(
+    TOKEN_EXPIRY_BUFFER_MS,
+    Math.max(expiresAt - now, 0) / 10,
+  );
+  return { token: auth.id_token, expiresAt, refreshAt: expiresAt - buffer };
+}
+
+/** Store key for one gateway account, without the username in clear */
+export function tokenKey(baseUrl: string, username: string): string {
+  const hash = createHash("sha256")
+    .update(`${baseUrl}\n${username}`)
+    .digest("hex")
+    .slice(0, 16);
+  return `fargo-token-${hash}`;
+}
+
+function toStoredToken(value: any): StoredToken | null {
+  return typeof value?.token === "string" &&
+    typeof value?.expiresAt === "number" &&
+    typeof value?.refreshAt === "number"
+    ? {
+        token: value.token,
+        expiresAt: value.expiresAt,
+        refreshAt: value.refreshAt,
+      }
+    : null;
+}
+
+function parseToken(raw: string | null): StoredToken | null {
+  if (!raw) return null;
+  try {
+    return toStoredToken(JSON.parse(raw));
+  } catch {
+    return null;
+  }
+}
+
+export function createMemoryTokenStore(): TokenStore {
+  const tokens = new Map<string, StoredToken>();
+
+  return {
+    async get(key) {
+      return tokens.get(key) ?? null;
+    },
+    async set(key, token) {
+      tokens.set(key, token);
+    },
+    async delete(key) {
+      tokens.delete(key);
+    },
+  };
+}
+
+// Writes through a temporary file so readers never see a partial file
+async function writeFileAtomic(file: string, contents: string) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temporary = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(temporary, contents, { mode: 0o600 });
+  await fs.rename(temporary, file);
+}
+
+async function readFileOrNull(file: string): Promise<string | null> {
+  try {
+    return await fs.readFile(file, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+/** Every key in one JSON file, readable only by the server's user */
+export function createFileTokenStore(file: string): TokenStore {
+  async function readAll(): Promise<Record<string, unknown>> {
+    try {
+      return JSON.parse((await readFileOrNull(file)) ?? "{}");
+    } catch {
+      return {};
+    }
+  }
+
+  return {
+    async get(key) {
+      return toStoredToken((await readAll())[key]);
+    },
+    async set(key, token) {
+      const all = await readAll();
+      await writeFileAtomic(file, JSON.stringify({ ...all, [key]: token }));
+    },
+    async delete(key) {
+      const { [key]: _removed, ...rest } = await readAll();
+      await writeFileAtomic(file, JSON.stringify(rest));
+    },
+  };
+}
+
+/** Local key-value store with per-key expiry, one file per key */
+export function createLocalKv(directory: string): KeyValueStore {
+  const fileFor = (key: string) =>
+    path.join(directory, `${encodeURIComponent(key)}.json`);
+
+  return {
+    async get(key) {
+      const raw = await readFileOrNull(fileFor(key));
+      if (!raw) return null;
+
+      try {
+        const { value, expiresAt } = JSON.parse(raw);
+        if (typeof expiresAt === "number" && Date.now() >= expiresAt) {
+          await fs.rm(fileFor(key), { force: true });
+          return null;
+        }
+        return typeof value === "string" ? value : null;
+      } catch {
+        return null;
+      }
+    },
+    async set(key, value, { ttlMs } = {}) {
+      await writeFileAtomic(
+        fileFor(key),
+        JSON.stringify({
+          value,
+          expiresAt: ttlMs === undefined ? null : Date.now() + ttlMs,
+        }),
+      );
+    },
+    async delete(key) {
+      await fs.rm(fileFor(key), { force: true });
+    },
+  };
+}
+
+/** Tokens in a key-value store, expiring along with the token */
+export function createKvTokenStore(kv: KeyValueStore): TokenStore {
+  return {
+    async get(key) {
+      return parseToken(await kv.get(key));
+    },
+    async set(key, token) {
+      await kv.set(key, JSON.stringify(token), {
+        ttlMs: Math.max(token.expiresAt - Date.now(), 0),
+      });
+    },
+    async delete(key) {
+      await kv.delete(key);
+    },
+  };
+}
+
+export const TOKEN_STORE_TYPES = ["memory", "file", "kv"] as const;
+
+export type TokenStoreType = (typeof TOKEN_STORE_TYPES)[number];
+
+export function createTokenStore(type: TokenStoreType, location: string) {
+  switch (type) {
+    case "file":
+      return createFileTokenStore(location);
+    case "kv":
+      return createKvTokenStore(createLocalKv(location));
+    default:
+      return createMemoryTokenStore();
+  }
+}
@@ -1,5 +1,6 @@
 import path from "path";
 import { createServer } from "./index";
+import { Logger } from "./lib/logger";
 import * as express from "express";
 
 const app = createServer();
@@ -22,19 +23,23 @@ app.get("*", (req, res) => {
   res.sendFile(path.join(distPath, "index.html"));
 });
 
+const logger = app.locals.logger as Logger;
+
 app.listen(port, () => {
-  console.log(`🚀 Fusion Starter server running on port ${port}`);
-  console.log(`📱 Frontend: http://localhost:${port}`);
-  console.log(`🔧 API: http://localhost:${port}/api`);
+  logger.info("Server started", {
+    port,
+    frontend: `http://localhost:${port}`,
+    api: `http://localhost:${port}/api`,
+  });
 });
 
 // Graceful shutdown
 process.on("SIGTERM", () => {
-  console.log("🛑 Received SIGTERM, shutting down gracefully");
+  logger.info("Received SIGTERM, shutting down gracefully");
   process.exit(0);
 });
 
 process.on("SIGINT", () => {
-  console.log("🛑 Received SIGINT, shutting down gracefully");
+  logger.info("Received SIGINT, shutting down gracefully");
   process.exit(0);
 });
@@ -0,0 +1,50 @@
+import { RequestHandler } from "express";
+import { timingSafeEqual } from "crypto";
+import { CachePurgeResponse } from "@shared/api";
+import { ServerConfig } from "../config";
+import { Cache } from "../lib/cache";
+import { CATALOG_KEYS, CatalogKey } from "../lib/catalog";
+import { getLogger } from "../lib/logger";
+
+/**
+ * Guards /api/admin routes with the ADMIN_TOKEN bearer token.
+ * Without a configured token the routes are disabled entirely.
+ */
+export const requireAdmin: RequestHandler = (req, res, next) => {
+  const { adminToken } = req.app.locals.config as ServerConfig;
+
+  if (!adminToken) {
+    return res.status(403).json({ error: "Admin endpoints are disabled" });
+  }
+
+  const provided = Buffer.from(
+    (req.headers.authorization || "").replace(/^Bearer\s+/i, ""),
+  );
+  const expected = Buffer.from(adminToken);
+
+  if (
+    provided.length !== expected.length ||
+    !timingSafeEqual(provided, expected)
+  ) {
+    return res.status(401).json({ error: "Invalid admin token" });
+  }
+
+  next();
+};
+
+export const handleCachePurge: RequestHandler = (req, res) => {
+  const key = (req.query.key || req.body?.key) as string | undefined;
+
+  if (key && !CATALOG_KEYS.includes(key as CatalogKey)) {
+    return res.status(400).json({
+      error: "Unknown cache key",
+      allowed: CATALOG_KEYS,
+    });
+  }
+
+  const purged = (req.app.locals.cache as Cache).purge(key);
+  getLogger().info("Purged cache keys", { purged });
+
+  const response: CachePurgeResponse = { purged };
+  res.json(response);
+};
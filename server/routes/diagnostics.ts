@@ -0,0 +1,6 @@
+import { RequestHandler } from "express";
+import { getSchemaDrift } from "../lib/normalize";
+
+export const handleSchemaDiagnostics: RequestHandler = (req, res) => {
+  res.json(getSchemaDrift(req).diagnostics());
+};
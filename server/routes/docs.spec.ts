@@ -0,0 +1,316 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { createServer } from "../index";
+import { OPERATIONS, findOperation } from "../lib/openapi";
+import { startServer, stopServer } from "./testServer";
+
+afterEach(stopServer);
+
+interface Call {
+  method: "get" | "post";
+  /** Route pattern of the operation */
+  route: string;
+  url?: string;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+// Sends a request and checks the response against the operation's spec
+async function expectConforming(baseUrl: string, call: Call) {
+  const operation = findOperation(call.method, call.route);
+  expect(operation, `${call.method} ${call.route} is documented`).toBeDefined();
+
+  const response = await fetch(`${baseUrl}${call.url ?? call.route}`, {
+    method: call.method.toUpperCase(),
+    headers: {
+      ...(call.body === undefined
+        ? {}
+        : { "Content-Type": "application/json" }),
+      ...call.headers,
+    },
+    body: call.body === undefined ? undefined : JSON.stringify(call.body),
+  });
+  const documented = operation.responses[response.status];
+  expect(
+    documented,
+    `${call.method} ${call.route} documents status ${response.status}`,
+  ).toBeDefined();
+
+  expect(response.headers.get("content-type")).toContain(
+    documented.contentType ?? "application/json",
+  );
+  const body = documented.contentType
+    ? await response.text()
+    : await response.json();
+  const parsed = documented.schema.safeParse(body);
+  expect(
+    parsed.success ? [] : parsed.error.issues,
+    `${call.method} ${call.route} ${response.status} matches its schema`,
+  ).toEqual([]);
+  for (const header of documented.headers ?? []) {
+    expect(response.headers.get(header), header).not.toBeNull();
+  }
+  return response.status;
+}
+
+const tashkentToSamarkand = {
+  from_latitude: 41.311081,
+  from_longitude: 69.240562,
+  to_latitude: 39.654167,
+  to_longitude: 66.959722,
+  weight: 2,
+  length: 30,
+  width: 20,
+  height: 10,
+  cod_amount: 100000,
+};
+
+describe("OpenAPI document", () => {
+  it("should document exactly the registered routes", () => {
+    const app = createServer({
+      env: { FARGO_GATEWAY_MODE: "simulator", LOG_LEVEL: "silent" },
+    });
+    const routes = app._router.stack
+      .filter((layer) => layer.route)
+      .flatMap((layer) =>
+        Object.keys(layer.route.methods).map(
+          (method) => `${method} ${layer.route.path}`,
+        ),
+      )
+      .sort();
+
+    expect(
+      OPERATIONS.map(({ method, path }) => `${method} ${path}`).sort(),
+    ).toEqual(routes);
+  });
+
+  it("should serve the document with resolvable references", async () => {
+    const baseUrl = await startServer({ BUILD_VERSION: "1.2.3" });
+    await expectConforming(baseUrl, {
+      method: "get",
+      route: "/api/openapi.json",
+    });
+
+    const document = await (await fetch(`${baseUrl}/api/openapi.json`)).json();
+    expect(document.openapi).toMatch(/^3\./);
+    expect(document.info.version).toBe("1.2.3");
+    expect(Object.keys(document.paths)).toContain(
+      "/api/regions/{regionId}/cities",
+    );
+
+    const refs = JSON.stringify(document).match(
+      /"#\/components\/schemas\/\w+"/g,
+    );
+    expect(refs.length).toBeGreaterThan(0);
+    for (const ref of new Set(refs)) {
+      const name = JSON.parse(ref).split("/").pop();
+      expect(document.components.schemas, ref).toHaveProperty(name);
+    }
+  });
+
+  it("should render the docs page", async () => {
+    const baseUrl = await startServer();
+    await expectConforming(baseUrl, { method: "get", route: "/api/docs" });
+
+    const page = await (await fetch(`${baseUrl}/api/docs`)).text();
+    for (const operation of OPERATIONS) {
+      expect(page).toContain(`id="${operation.operationId}"`);
+    }
+  });
+});
+
+describe("Handlers conform to the OpenAPI document", () => {
+  it("should match for successful requests", async () => {
+    const baseUrl = await startServer();
+    const calls: Call[] = [
+      { method: "get", route: "/api/ping" },
+      { method: "get", route: "/api/demo" },
+      { method: "get", route: "/api/health" },
+      { method: "get", route: "/api/ready" },
+      { method: "get", route: "/api/metrics" },
+      { method: "get", route: "/api/cities" },
+      { method: "get", route: "/api/warehouses" },
+      { method: "get", route: "/api/lockers" },
+      {
+        method: "get",
+        route: "/api/warehouses/nearest",
+        url: "/api/warehouses/nearest?lat=41.3&lon=69.25&limit=3",
+      },
+      { method: "get", route: "/api/regions" },
+      {
+        method: "get",
+        route: "/api/availability",
+        url: "/api/availability?origin=1216279901&destination=263947194",
+      },
+      {
+        method: "get",
+        route: "/api/cities/search",
+        url: "/api/cities/search?q=tosh",
+      },
+      {
+        method: "get",
+        route: "/api/regions/:regionId/cities",
+        url: "/api/regions/toshkent-shahri/cities",
+      },
+      {
+        method: "post",
+        route: "/api/calculate-tariff",
+        body: { ...tashkentToSamarkand, tariff_type: "OFFICE_OFFICE" },
+      },
+      {
+        method: "post",
+        route: "/api/calculate-tariff/all",
+        body: {
+          ...tashkentToSamarkand,
+          from_city_id: 1216279901,
+          to_city_id: 263947049,
+        },
+      },
+      {
+        method: "post",
+        route: "/api/calculate-tariff/batch",
+        body: {
+          shipments: [
+            { id: "ok", ...tashkentToSamarkand, tariff_type: "DOOR_DOOR" },
+            { id: 2, weight: 1, tariff_type: "DOOR_DOOR" },
+          ],
+        },
+      },
+      { method: "get", route: "/api/diagnostics/schema" },
+      { method: "get", route: "/api/diagnostics/warehouses" },
+    ];
+
+    for (const call of calls) {
+      expect(await expectConforming(baseUrl, call)).toBe(200);
+    }
+  });
+
+  it("should match for validation errors", async () => {
+    const baseUrl = await startServer();
+    const routes = [
+      "/api/calculate-tariff",
+      "/api/calculate-tariff/all",
+      "/api/calculate-tariff/batch",
+    ];
+
+    for (const route of routes) {
+      expect(
+        await expectConforming(baseUrl, {
+          method: "post",
+          route,
+          body: { weight: -1 },
+        }),
+      ).toBe(400);
+    }
+    expect(
+      await expectConforming(baseUrl, {
+        method: "get",
+        route: "/api/warehouses/nearest",
+        url: "/api/warehouses/nearest?lat=abc",
+      }),
+    ).toBe(400);
+    expect(
+      await expectConforming(baseUrl, {
+        method: "get",
+        route: "/api/cities/search",
+        url: "/api/cities/search?q=",
+      }),
+    ).toBe(400);
+    expect(
+      await expectConforming(baseUrl, {
+        method: "get",
+        route: "/api/availability",
+        url: "/api/availability?origin=1216279901&destination=42",
+      }),
+    ).toBe(400);
+  });
+
+  it("should match for ineligible tariff types", async () => {
+    const baseUrl = await startServer();
+
+    expect(
+      await expectConforming(baseUrl, {
+        method: "post",
+        route: "/api/calculate-tariff",
+        body: {
+          ...tashkentToSamarkand,
+          tariff_type: "OFFICE_OFFICE",
+          from_city_id: 1216279901,
+          to_city_id: 263947194,
+        },
+      }),
+    ).toBe(422);
+  });
+
+  it("should match when the gateway refuses a shipment", async () => {
+    const baseUrl = await startServer({ FARGO_SIMULATOR_SCENARIO: "rejected" });
+
+    expect(
+      await expectConforming(baseUrl, {
+        method: "post",
+        route: "/api/calculate-tariff",
+        body: { ...tashkentToSamarkand, tariff_type: "OFFICE_OFFICE" },
+      }),
+    ).toBe(422);
+  });
+
+  it("should match when rate limited", async () => {
+    const baseUrl = await startServer({
+      RATE_LIMIT_STATIC_PER_MINUTE: "1",
+      RATE_LIMIT_CALCULATION_PER_MINUTE: "1",
+    });
+    const calls: Call[] = [
+      { method: "get", route: "/api/regions" },
+      {
+        method: "post",
+        route: "/api/calculate-tariff",
+        body: { ...tashkentToSamarkand, tariff_type: "OFFICE_OFFICE" },
+      },
+    ];
+
+    for (const call of calls) {
+      await expectConforming(baseUrl, call);
+      expect(await expectConforming(baseUrl, call)).toBe(429);
+    }
+  });
+
+  it("should match when the gateway fails", async () => {
+    const baseUrl = await startServer({
+      FARGO_SIMULATOR_SCENARIO: "server-error",
+      FARGO_RETRIES: "0",
+    });
+
+    expect(
+      await expectConforming(baseUrl, { method: "get", route: "/api/ready" }),
+    ).toBe(503);
+    expect(
+      await expectConforming(baseUrl, { method: "get", route: "/api/cities" }),
+    ).toBeGreaterThanOrEqual(500);
+  });
+
+  it("should match for admin requests", async () => {
+    const adminToken = "a-long-admin-token-123";
+    const purge = (headers: Record<string, string>, url?: string): Call => ({
+      method: "post",
+      route: "/api/admin/cache/purge",
+      url,
+      headers,
+    });
+
+    let baseUrl = await startServer();
+    expect(await expectConforming(baseUrl, purge({}))).toBe(403);
+    await stopServer();
+
+    baseUrl = await startServer({ ADMIN_TOKEN: adminToken });
+    const authorized = { Authorization: `Bearer ${adminToken}` };
+    expect(
+      await expectConforming(baseUrl, purge({ Authorization: "Bearer nope" })),
+    ).toBe(401);
+    expect(await expectConforming(baseUrl, purge(authorized))).toBe(200);
+    expect(
+      await expectConforming(
+        baseUrl,
+        purge(authorized, "/api/admin/cache/purge?key=prices"),
+      ),
+    ).toBe(400);
+  });
+});
@@ -0,0 +1,135 @@
+import { RequestHandler } from "express";
+import { ServerConfig } from "../config";
+import {
+  OPERATIONS,
+  Operation,
+  buildOpenApiDocument,
+  toOpenApiPath,
+} from "../lib/openapi";
+import { toJsonSchema } from "../lib/jsonSchema";
+
+/**
+ * The OpenAPI document and a page rendering it.
+ * The page is self-contained (no CDN) and lets partners send requests from
+ * the browser against this server.
+ */
+
+export const handleOpenApiDocument: RequestHandler = (req, res) => {
+  const { buildVersion } = req.app.locals.config as ServerConfig;
+  res.json(buildOpenApiDocument(buildVersion));
+};
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const formatSchema = (schema: Parameters<typeof toJsonSchema>[0]) =>
+  `<pre>${escapeHtml(JSON.stringify(toJsonSchema(schema), null, 2))}</pre>`;
+
+function renderOperation(operation: Operation): string {
+  const parameters = (operation.parameters ?? []).filter(
+    (parameter) => parameter.in !== "header",
+  );
+  const inputs = parameters
+    .map(
+      (parameter) =>
+        `<label>${escapeHtml(parameter.name)} <input data-in="${parameter.in}" name="${escapeHtml(parameter.name)}" placeholder="${escapeHtml(parameter.description)}"></label>`,
+    )
+    .join("");
+  const responses = Object.entries(operation.responses)
+    .map(
+      ([status, response]) =>
+        `<details><summary><b>${status}</b> ${escapeHtml(response.description)}</summary>${response.schema ? formatSchema(response.schema) : ""}</details>`,
+    )
+    .join("");
+
+  return `<section id="${operation.operationId}">
+<h3><span class="method ${operation.method}">${operation.method.toUpperCase()}</span> <code>${escapeHtml(toOpenApiPath(operation.path))}</code></h3>
+<p>${escapeHtml(operation.summary)}${operation.description ? ` ${escapeHtml(operation.description)}` : ""}</p>
+${operation.requestBody ? `<details><summary>Request body</summary>${formatSchema(operation.requestBody)}</details>` : ""}
+${responses}
+<form data-method="${operation.method}" data-path="${escapeHtml(operation.path)}">
+${inputs}${operation.requestBody ? `<textarea name="body" rows="6">{}</textarea>` : ""}${operation.admin ? `<label>Admin token <input type="password" data-in="token"></label>` : ""}
+<button>Send</button><pre class="result" hidden></pre>
+</form>
+</section>`;
+}
+
+// Fills the path and query from the form, sends it and prints the response
+const TRY_IT_SCRIPT = `
+document.querySelectorAll("form").forEach(function (form) {
+  form.addEventListener("submit", async function (event) {
+    event.preventDefault();
+    var path = form.dataset.path;
+    var query = new URLSearchParams();
+    var headers = {};
+    form.querySelectorAll("input").forEach(function (input) {
+      if (!input.value) return;
+      if (input.dataset.in === "path") path = path.replace(":" + input.name, encodeURIComponent(input.value));
+      if (input.dataset.in === "query") query.set(input.name, input.value);
+      if (input.dataset.in === "token") headers.Authorization = "Bearer " + input.value;
+    });
+    var body = form.querySelector("textarea");
+    if (body) headers["Content-Type"] = "application/json";
+    var result = form.querySelector(".result");
+    result.hidden = false;
+    try {
+      var response = await fetch(path + (query.toString() ? "?" + query : ""), {
+        method: form.dataset.method.toUpperCase(),
+        headers: headers,
+        body: body ? body.value : undefined,
+      });
+      var text = await response.text();
+      try { text = JSON.stringify(JSON.parse(text), null, 2); } catch (error) {}
+      result.textContent = response.status + " " + response.statusText + "\\n" + text;
+    } catch (error) {
+      result.textContent = String(error);
+    }
+  });
+});`;
+
+const STYLE = `
+body { font-family: system-ui, sans-serif; max-width: 960px; margin: 0 auto; padding: 1rem; color: #1f2937; }
+section { border-top: 1px solid #e5e7eb; padding: 0.5rem 0 1rem; }
+.method { display: inline-block; min-width: 3.5rem; padding: 0 0.4rem; border-radius: 4px; color: #fff; font-size: 0.8rem; text-align: center; }
+.get { background: #2563eb; } .post { background: #16a34a; }
+pre { background: #f3f4f6; padding: 0.5rem; overflow-x: auto; font-size: 0.8rem; }
+form { display: grid; gap: 0.4rem; margin-top: 0.5rem; }
+textarea { font-family: monospace; }
+button { justify-self: start; }`;
+
+export const handleDocs: RequestHandler = (req, res) => {
+  const { buildVersion } = req.app.locals.config as ServerConfig;
+  const document = buildOpenApiDocument(buildVersion);
+  const tags = [...new Set(OPERATIONS.map((operation) => operation.tag))];
+
+  const body = tags
+    .map(
+      (tag) =>
+        `<h2>${escapeHtml(tag)}</h2>${OPERATIONS.filter(
+          (operation) => operation.tag === tag,
+        )
+          .map(renderOperation)
+          .join("\n")}`,
+    )
+    .join("\n");
+
+  res.type("html").send(`<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(document.info.title)}</title>
+<style>${STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(document.info.title)} <small>${escapeHtml(document.info.version)}</small></h1>
+<p>${escapeHtml(document.info.description)} Machine-readable spec: <a href="/api/openapi.json">/api/openapi.json</a>.</p>
+${body}
+<script>${TRY_IT_SCRIPT}</script>
+</body>
+</html>`);
+};
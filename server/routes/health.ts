@@ -0,0 +1,120 @@
+import { Request, RequestHandler } from "express";
+import {
+  CatalogHealth,
+  HealthResponse,
+  ReadinessCheck,
+  ReadinessResponse,
+} from "@shared/api";
+import { ServerConfig } from "../config";
+import { Cache } from "../lib/cache";
+import { CATALOG_KEYS, CatalogKey, loadCatalog } from "../lib/catalog";
+import { getGateway } from "../lib/gateway";
+
+/**
+ * Liveness and readiness probes.
+ * /api/health only reports what the server already knows and always
+ * answers 200; /api/ready authenticates and loads the catalogs if needed
+ * and answers 503 until both work.
+ */
+
+const toIso = (time: number | null) =>
+  time === null ? null : new Date(time).toISOString();
+
+function describeCatalog(req: Request, key: CatalogKey): CatalogHealth {
+  const config = req.app.locals.config as ServerConfig;
+  const entry = (req.app.locals.cache as Cache).peek<{ data: unknown[] }>(key);
+  if (!entry) {
+    return {
+      loaded: false,
+      records: 0,
+      fetchedAt: null,
+      ageSeconds: null,
+      stale: false,
+    };
+  }
+
+  const ageMs = Date.now() - entry.fetchedAt;
+  return {
+    loaded: true,
+    records: entry.value.data.length,
+    fetchedAt: toIso(entry.fetchedAt),
+    ageSeconds: Math.round(ageMs / 1000),
+    stale: ageMs >= config.cache[key].ttlMs,
+  };
+}
+
+function describeHealth(req: Request): HealthResponse {
+  const config = req.app.locals.config as ServerConfig;
+  const gateway = getGateway(req).status();
+  const reachable =
+    gateway.lastSuccessAt === null && gateway.lastFailureAt === null
+      ? null
+      : (gateway.lastSuccessAt ?? 0) > (gateway.lastFailureAt ?? 0);
+  const catalogs = Object.fromEntries(
+    CATALOG_KEYS.map((key) => [key, describeCatalog(req, key)]),
+  ) as HealthResponse["catalogs"];
+  const degraded =
+    gateway.circuit !== "closed" ||
+    reachable === false ||
+    Object.values(catalogs).some((catalog) => catalog.stale);
+
+  return {
+    status: degraded ? "degraded" : "ok",
+    version: config.buildVersion,
+    uptimeSeconds: Math.round(process.uptime()),
+    gateway: {
+      mode: config.gateway.mode,
+      circuit: gateway.circuit,
+      reachable,
+      lastSuccessAt: toIso(gateway.lastSuccessAt),
+      lastFailureAt: toIso(gateway.lastFailureAt),
+      lastError: gateway.lastError,
+      token: {
+        valid: gateway.tokenValid,
+        expiresAt: toIso(gateway.tokenExpiresAt),
+      },
+    },
+    catalogs,
+  };
+}
+
+async function check(run: () => Promise<unknown>): Promise<ReadinessCheck> {
+  try {
+    await run();
+    return { ok: true };
+  } catch (error) {
+    return {
+      ok: false,
+      error: error instanceof Error ? error.message : "Unknown error",
+    };
+  }
+}
+
+export const handleHealth: RequestHandler = (req, res) => {
+  res.set("Cache-Control", "no-store");
+  res.json(describeHealth(req));
+};
+
+export const handleReady: RequestHandler = async (req, res) => {
+  const gateway = getGateway(req);
+
+  const [gatewayCheck, catalogsCheck] = await Promise.all([
+    check(async () => {
+      // A cached token alone does not prove the gateway is answering
+      if (gateway.status().circuit === "open") {
+        throw new Error("Circuit breaker is open");
+      }
+      await gateway.getToken();
+    }),
+    check(() => Promise.all(CATALOG_KEYS.map((key) => loadCatalog(req, key)))),
+  ]);
+  const ready = gatewayCheck.ok && catalogsCheck.ok;
+
+  const response_data: ReadinessResponse = {
+    ...describeHealth(req),
+    ready,
+    checks: { gateway: gatewayCheck, catalogs: catalogsCheck },
+  };
+  res.set("Cache-Control", "no-store");
+  res.status(ready ? 200 : 503).json(response_data);
+};
@@ -0,0 +1,10 @@
+import { RequestHandler } from "express";
+import { getMetrics } from "../lib/metrics";
+
+export const handleMetrics: RequestHandler = (req, res) => {
+  res.set({
+    "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+    "Cache-Control": "no-store",
+  });
+  res.send(getMetrics(req).registry.render());
+};
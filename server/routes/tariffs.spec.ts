@@ -0,0 +1,1019 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { IncomingMessage, get } from "http";
+import { createServer } from "../index";
+import { loadDirectory } from "../lib/directory";
+import { startServer, stopServer } from "./testServer";
+
+function calculate(baseUrl: string, body: Record<string, unknown>) {
+  return fetch(`${baseUrl}/api/calculate-tariff`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+}
+
+const tashkentToSamarkand = {
+  from_latitude: 41.311081,
+  from_longitude: 69.240562,
+  to_latitude: 39.654167,
+  to_longitude: 66.959722,
+  weight: 2,
+  tariff_type: "OFFICE_OFFICE",
+};
+
+afterEach(stopServer);
+
+describe("POST /api/calculate-tariff", () => {
+  it("should return prices for the requested tariff type", async () => {
+    const baseUrl = await startServer();
+    const response = await calculate(baseUrl, tashkentToSamarkand);
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.data.list).toHaveLength(1);
+    expect(body.data.list[0].courier_type.type).toBe("OFFICE_OFFICE");
+    expect(body.data.list[0].price.total).toBe(25000);
+  });
+
+  it("should reject invalid fields with per-field errors", async () => {
+    const baseUrl = await startServer();
+    const response = await calculate(baseUrl, {
+      ...tashkentToSamarkand,
+      from_latitude: 55.75,
+      weight: "abc",
+      tariff_type: "EXPRESS",
+    });
+
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.code).toBe("VALIDATION_ERROR");
+    expect(body.errors.map((error) => error.path)).toEqual([
+      "from_latitude",
+      "weight",
+      "tariff_type",
+    ]);
+  });
+
+  it("should reject tariff types the cities cannot serve", async () => {
+    const baseUrl = await startServer();
+    const response = await calculate(baseUrl, {
+      ...tashkentToSamarkand,
+      tariff_type: "DOOR_POSTAMAT",
+      from_city_id: 1216279901,
+      to_city_id: 263947194,
+    });
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toEqual({
+      error: "Tariff type not available between these cities",
+      code: "TARIFF_UNAVAILABLE",
+      reason: "NO_DESTINATION_LOCKER",
+      details: "DOOR_POSTAMAT needs a locker in the destination city",
+    });
+  });
+
+  it("should quote eligible tariff types between known cities", async () => {
+    const baseUrl = await startServer();
+    const response = await calculate(baseUrl, {
+      ...tashkentToSamarkand,
+      from_city_id: 1216279901,
+      to_city_id: 263947403,
+    });
+
+    expect(response.status).toBe(200);
+  });
+
+  it("should accept numeric strings", async () => {
+    const baseUrl = await startServer();
+    const response = await calculate(baseUrl, {
+      ...tashkentToSamarkand,
+      weight: "2.5",
+    });
+
+    expect(response.status).toBe(200);
+  });
+
+  it("should charge by volumetric weight when it exceeds the actual weight", async () => {
+    const baseUrl = await startServer();
+    const response = await calculate(baseUrl, {
+      ...tashkentToSamarkand,
+      length: 60,
+      width: 40,
+      height: 30,
+    });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).weights).toEqual({
+      physical: 2,
+      volumetric: 12,
+      chargeable: 12,
+    });
+  });
+
+  it("should itemize COD and declared-value fees", async () => {
+    const baseUrl = await startServer();
+    const response = await calculate(baseUrl, {
+      ...tashkentToSamarkand,
+      cod_amount: 1_000_000,
+      declared_value: 500_000,
+    });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).data.list[0].breakdown).toEqual({
+      vatRate: 0.12,
+      delivery: { net: 25000, vat: 3000, gross: 28000 },
+      codFee: { net: 26786, vat: 3214, gross: 30000 },
+      declaredValueFee: { net: 5000, vat: 600, gross: 5600 },
+      total: { net: 56786, vat: 6814, gross: 63600 },
+    });
+  });
+
+  it("should use the configured VAT rate", async () => {
+    const baseUrl = await startServer({ VAT_RATE_PERCENT: "15" });
+    const response = await calculate(baseUrl, tashkentToSamarkand);
+
+    const { breakdown } = (await response.json()).data.list[0];
+    expect(breakdown.vatRate).toBe(0.15);
+    expect(breakdown.total).toEqual({ net: 25000, vat: 3750, gross: 28750 });
+  });
+
+  it("should require all three dimensions together", async () => {
+    const baseUrl = await startServer();
+    const response = await calculate(baseUrl, {
+      ...tashkentToSamarkand,
+      length: 60,
+    });
+
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.errors.map((error) => error.path)).toEqual(["width", "height"]);
+  });
+
+  it("should return an empty list when the gateway has no prices", async () => {
+    const baseUrl = await startServer({ FARGO_SIMULATOR_SCENARIO: "empty" });
+    const response = await calculate(baseUrl, tashkentToSamarkand);
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).data.list).toEqual([]);
+  });
+
+  it("should fail when the gateway rejects the credentials", async () => {
+    const baseUrl = await startServer({
+      FARGO_SIMULATOR_SCENARIO: "unauthorized",
+      PRICING_FALLBACK: "off",
+    });
+    const response = await calculate(baseUrl, tashkentToSamarkand);
+
+    expect(response.status).toBe(500);
+    expect((await response.json()).details).toContain("401");
+  });
+
+  it("should fail when the gateway errors", async () => {
+    const baseUrl = await startServer({
+      FARGO_SIMULATOR_SCENARIO: "server-error",
+      PRICING_FALLBACK: "off",
+    });
+    const response = await calculate(baseUrl, tashkentToSamarkand);
+
+    expect(response.status).toBe(500);
+  });
+
+  it("should answer 504 when the gateway does not respond in time", async () => {
+    const baseUrl = await startServer({
+      FARGO_SIMULATOR_SCENARIO: "slow",
+      FARGO_SIMULATOR_DELAY_MS: "1000",
+      FARGO_TIMEOUT_MS: "20",
+      PRICING_FALLBACK: "off",
+    });
+    const response = await calculate(baseUrl, tashkentToSamarkand);
+
+    expect(response.status).toBe(504);
+    expect((await response.json()).code).toBe("GATEWAY_TIMEOUT");
+  });
+
+  it("should answer 503 while the circuit breaker is open", async () => {
+    const baseUrl = await startServer({
+      FARGO_SIMULATOR_SCENARIO: "server-error",
+      FARGO_BREAKER_THRESHOLD: "1",
+      PRICING_FALLBACK: "off",
+    });
+    await calculate(baseUrl, tashkentToSamarkand);
+    const response = await calculate(baseUrl, tashkentToSamarkand);
+
+    expect(response.status).toBe(503);
+    expect(response.headers.get("retry-after")).toBe("30");
+    expect((await response.json()).code).toBe("GATEWAY_UNAVAILABLE");
+  });
+
+  it("should fall back to a rate card estimate when the gateway errors", async () => {
+    const baseUrl = await startServer({
+      FARGO_SIMULATOR_SCENARIO: "server-error",
+    });
+    const response = await calculate(baseUrl, tashkentToSamarkand);
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.estimate).toBe(true);
+    expect(body.data.list[0]).toMatchObject({
+      estimate: true,
+      courier_type: { type: "OFFICE_OFFICE" },
+      // Zone 2, 2 kg
+      price: { total: 35000 },
+    });
+  });
+
+  it("should estimate when the city catalogs cannot be loaded either", async () => {
+    const baseUrl = await startServer({
+      FARGO_SIMULATOR_SCENARIO: "server-error",
+      FARGO_RETRIES: "0",
+    });
+    const response = await calculate(baseUrl, {
+      ...tashkentToSamarkand,
+      from_city_id: 1216279901,
+      to_city_id: 263947194,
+    });
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.estimate).toBe(true);
+    expect(body.data.list[0].price.total).toBe(35000);
+  });
+
+  it("should answer 422 with the gateway's message when it refuses the shipment", async () => {
+    const baseUrl = await startServer({ FARGO_SIMULATOR_SCENARIO: "rejected" });
+    const response = await calculate(baseUrl, tashkentToSamarkand);
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toEqual({
+      error: "Failed to calculate tariff",
+      code: "SHIPMENT_REJECTED",
+      details: "Weight exceeds the tariff limit",
+    });
+  });
+
+  it("should not estimate shipments the rate card does not cover", async () => {
+    const baseUrl = await startServer({
+      FARGO_SIMULATOR_SCENARIO: "server-error",
+    });
+    const response = await calculate(baseUrl, {
+      ...tashkentToSamarkand,
+      weight: 31,
+    });
+
+    expect(response.status).toBe(500);
+  });
+});
+
+describe("POST /api/calculate-tariff/all", () => {
+  const { tariff_type, ...shipment } = tashkentToSamarkand;
+
+  function calculateAll(baseUrl: string, body: Record<string, unknown>) {
+    return fetch(`${baseUrl}/api/calculate-tariff/all`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it("should quote every tariff type sorted by price", async () => {
+    const baseUrl = await startServer();
+    const response = await calculateAll(baseUrl, shipment);
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    const totals = body.data.list.map((tariff) => tariff.price.total);
+    expect(body.data.list).toHaveLength(6);
+    expect(totals).toEqual([...totals].sort((a, b) => a - b));
+    expect(body.cheapest).toBe("OFFICE_OFFICE");
+    expect(body.fastest).toBe("OFFICE_OFFICE");
+    expect(body.excluded).toEqual([]);
+    expect(body.estimate).toBe(false);
+  });
+
+  it("should leave out types the cities cannot serve", async () => {
+    const baseUrl = await startServer();
+    const response = await calculateAll(baseUrl, {
+      ...shipment,
+      from_city_id: 1216279901,
+      to_city_id: 263947194,
+    });
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.data.list.map((tariff) => tariff.courier_type.type)).toEqual([
+      "OFFICE_DOOR",
+      "DOOR_DOOR",
+    ]);
+    expect(body.excluded).toEqual([
+      { tariff_type: "OFFICE_OFFICE", reason: "NO_DESTINATION_OFFICE" },
+      { tariff_type: "DOOR_OFFICE", reason: "NO_DESTINATION_OFFICE" },
+      { tariff_type: "OFFICE_POSTAMAT", reason: "NO_DESTINATION_LOCKER" },
+      { tariff_type: "DOOR_POSTAMAT", reason: "NO_DESTINATION_LOCKER" },
+    ]);
+  });
+
+  it("should estimate every type when the city catalogs cannot be loaded", async () => {
+    const baseUrl = await startServer({
+      FARGO_SIMULATOR_SCENARIO: "server-error",
+      FARGO_RETRIES: "0",
+    });
+    const response = await calculateAll(baseUrl, {
+      ...shipment,
+      from_city_id: 1216279901,
+      to_city_id: 263947194,
+    });
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.estimate).toBe(true);
+    expect(body.data.list).toHaveLength(6);
+    expect(body.excluded).toEqual([]);
+  });
+
+  it("should reject unknown city ids", async () => {
+    const baseUrl = await startServer();
+    const response = await calculateAll(baseUrl, {
+      ...shipment,
+      to_city_id: 42,
+    });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).errors[0].path).toBe("to_city_id");
+  });
+});
+
+describe("GET /api/availability", () => {
+  it("should report every tariff type with a reason when unavailable", async () => {
+    const baseUrl = await startServer();
+    const response = await fetch(
+      `${baseUrl}/api/availability?origin=1216279901&destination=263947194`,
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      origin: 1216279901,
+      destination: 263947194,
+      data: [
+        {
+          tariff_type: "OFFICE_OFFICE",
+          available: false,
+          reason: "NO_DESTINATION_OFFICE",
+        },
+        { tariff_type: "OFFICE_DOOR", available: true },
+        {
+          tariff_type: "DOOR_OFFICE",
+          available: false,
+          reason: "NO_DESTINATION_OFFICE",
+        },
+        { tariff_type: "DOOR_DOOR", available: true },
+        {
+          tariff_type: "OFFICE_POSTAMAT",
+          available: false,
+          reason: "NO_DESTINATION_LOCKER",
+        },
+        {
+          tariff_type: "DOOR_POSTAMAT",
+          available: false,
+          reason: "NO_DESTINATION_LOCKER",
+        },
+      ],
+    });
+  });
+
+  it("should count offices whose city is spelled differently", async () => {
+    const baseUrl = await startServer();
+    // The Andijan office is listed under "г. Андижан"
+    const response = await fetch(
+      `${baseUrl}/api/availability?origin=1216279901&destination=1125210871`,
+    );
+
+    const { data } = await response.json();
+    expect(data.find((entry) => entry.tariff_type === "OFFICE_OFFICE")).toEqual(
+      { tariff_type: "OFFICE_OFFICE", available: true },
+    );
+  });
+
+  it("should reject missing and unknown city ids", async () => {
+    const baseUrl = await startServer();
+
+    const missing = await fetch(`${baseUrl}/api/availability?origin=abc`);
+    expect(missing.status).toBe(400);
+    expect((await missing.json()).errors.map((error) => error.path)).toEqual([
+      "origin",
+      "destination",
+    ]);
+
+    const unknown = await fetch(
+      `${baseUrl}/api/availability?origin=1216279901&destination=42`,
+    );
+    expect(unknown.status).toBe(400);
+    expect((await unknown.json()).errors).toEqual([
+      {
+        code: "unknown_city",
+        path: "destination",
+        message: "destination 42 is not a known city",
+      },
+    ]);
+  });
+});
+
+describe("POST /api/calculate-tariff/batch", () => {
+  function calculateBatch(baseUrl: string, body: unknown) {
+    return fetch(`${baseUrl}/api/calculate-tariff/batch`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+  }
+
+  it("should price each shipment and report failures per item", async () => {
+    const baseUrl = await startServer({ FARGO_BATCH_CONCURRENCY: "2" });
+    const response = await calculateBatch(baseUrl, {
+      shipments: [
+        { ...tashkentToSamarkand, id: "order-1" },
+        {
+          id: "order-2",
+          from_city_id: 1216279901,
+          to_city_id: 263947049,
+          weight: 1,
+          tariff_type: "DOOR_DOOR",
+        },
+        { id: "order-3", from_city_id: 42, to_city_id: 263947049, weight: 1 },
+      ],
+    });
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body).toMatchObject({ total: 3, succeeded: 2, failed: 1 });
+    expect(body.data.map((result) => [result.id, result.status])).toEqual([
+      ["order-1", "ok"],
+      ["order-2", "ok"],
+      ["order-3", "error"],
+    ]);
+    expect(body.data[1].data.list[0].price.total).toBe(45000);
+    expect(body.data[2].errors.map((error) => error.path)).toEqual([
+      "tariff_type",
+    ]);
+  });
+
+  it("should reject shipments with an unknown city", async () => {
+    const baseUrl = await startServer();
+    const body = await (
+      await calculateBatch(baseUrl, {
+        shipments: [
+          {
+            from_city_id: 42,
+            to_city_id: 263947049,
+            weight: 1,
+            tariff_type: "DOOR_DOOR",
+          },
+        ],
+      })
+    ).json();
+
+    expect(body.data[0].status).toBe("error");
+    expect(body.data[0].errors[0]).toMatchObject({
+      code: "unknown_city",
+      path: "from_city_id",
+    });
+  });
+
+  it("should reject tariff types the shipment's cities cannot serve", async () => {
+    const baseUrl = await startServer();
+    const body = await (
+      await calculateBatch(baseUrl, {
+        shipments: [
+          {
+            id: "order-1",
+            from_city_id: 1216279901,
+            to_city_id: 263947194,
+            weight: 1,
+            tariff_type: "DOOR_POSTAMAT",
+          },
+          {
+            id: "order-2",
+            from_city_id: 1216279901,
+            to_city_id: 263947194,
+            weight: 1,
+            tariff_type: "DOOR_DOOR",
+          },
+        ],
+      })
+    ).json();
+
+    expect(body).toMatchObject({ succeeded: 1, failed: 1 });
+    expect(body.data[0]).toEqual({
+      index: 0,
+      id: "order-1",
+      status: "error",
+      error: "DOOR_POSTAMAT needs a locker in the destination city",
+      code: "TARIFF_UNAVAILABLE",
+      reason: "NO_DESTINATION_LOCKER",
+    });
+    expect(body.data[1].status).toBe("ok");
+  });
+
+  it("should keep going when the gateway fails", async () => {
+    const baseUrl = await startServer({
+      FARGO_SIMULATOR_SCENARIO: "server-error",
+      PRICING_FALLBACK: "off",
+    });
+    const response = await calculateBatch(baseUrl, {
+      shipments: [tashkentToSamarkand, tashkentToSamarkand],
+    });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).failed).toBe(2);
+  });
+
+  it("should reject a request without shipments", async () => {
+    const baseUrl = await startServer();
+    const response = await calculateBatch(baseUrl, { shipments: [] });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).errors[0].path).toBe("shipments");
+  });
+});
+
+describe("GET /api/warehouses", () => {
+  it("should merge every page and report the true total", async () => {
+    const baseUrl = await startServer({ FARGO_PAGE_SIZE: "2" });
+    const response = await fetch(`${baseUrl}/api/warehouses`);
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.data).toHaveLength(6);
+    expect(body.totalElements).toBe(6);
+    expect(new Set(body.data.map((warehouse) => warehouse.id)).size).toBe(6);
+  });
+});
+
+describe("GET /api/cities", () => {
+  it("should cache the list and answer revalidation with 304", async () => {
+    const baseUrl = await startServer();
+
+    const first = await fetch(`${baseUrl}/api/cities`);
+    expect(first.headers.get("x-cache")).toBe("MISS");
+    const etag = first.headers.get("etag");
+    expect(etag).toBeTruthy();
+    expect(first.headers.get("last-modified")).toBeTruthy();
+
+    // fetch() adds Cache-Control: no-cache to conditional requests,
+    // so revalidate the way a browser does with a plain GET
+    const second = await new Promise<IncomingMessage>((resolve) =>
+      get(
+        `${baseUrl}/api/cities`,
+        { headers: { "If-None-Match": etag } },
+        resolve,
+      ),
+    );
+    second.resume();
+    expect(second.statusCode).toBe(304);
+    expect(second.headers["x-cache"]).toBe("HIT");
+  });
+});
+
+describe("GET /api/regions", () => {
+  it("should serve the directory with its version", async () => {
+    const baseUrl = await startServer();
+    const regions = await (await fetch(`${baseUrl}/api/regions`)).json();
+    const cities = await (
+      await fetch(`${baseUrl}/api/regions/xorazm-viloyati/cities`)
+    ).json();
+
+    expect(regions.version).toBe(loadDirectory().version);
+    expect(regions.data).toHaveLength(14);
+    expect(cities.version).toBe(regions.version);
+    expect(
+      cities.data.every((city) => city.region_id === "xorazm-viloyati"),
+    ).toBe(true);
+  });
+});
+
+describe("GET /api/cities/search", () => {
+  it("should return the best matches with their region", async () => {
+    const baseUrl = await startServer();
+    const response = await fetch(
+      `${baseUrl}/api/cities/search?q=${encodeURIComponent("Самарк")}&limit=2`,
+    );
+
+    expect(response.status).toBe(200);
+    const { data } = await response.json();
+    expect(
+      data.map((city) => [city.names.ru, city.region.id, city.match]),
+    ).toEqual([
+      ["город Самарканд", "samarqand-viloyati", "prefix"],
+      ["Самаркандский район", "samarqand-viloyati", "prefix"],
+    ]);
+  });
+
+  it("should list every city of a region searched by name", async () => {
+    const baseUrl = await startServer();
+    const response = await fetch(
+      `${baseUrl}/api/cities/search?q=${encodeURIComponent("Samarqand viloyati")}&lang=uz&limit=50`,
+    );
+
+    const { data } = await response.json();
+    const samarqand = loadDirectory().cities.filter(
+      (city) => city.region_id === "samarqand-viloyati",
+    );
+    expect(data).toHaveLength(samarqand.length);
+    expect(data.every((city) => city.region.id === "samarqand-viloyati")).toBe(
+      true,
+    );
+  });
+
+  it("should reject a missing query and bad options", async () => {
+    const baseUrl = await startServer();
+    const response = await fetch(
+      `${baseUrl}/api/cities/search?lang=de&limit=100`,
+    );
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).errors.map((error) => error.path)).toEqual([
+      "q",
+      "lang",
+      "limit",
+    ]);
+  });
+});
+
+describe("GET /api/warehouses/nearest", () => {
+  // Samarkand city centre, close to the Samarkand office and locker
+  const samarkand = "lat=39.6542&lon=66.9597";
+
+  it("should return offices and lockers closest first", async () => {
+    const baseUrl = await startServer();
+    const response = await fetch(
+      `${baseUrl}/api/warehouses/nearest?${samarkand}&limit=3`,
+    );
+
+    expect(response.status).toBe(200);
+    const { data } = await response.json();
+    expect(data.map((point) => point.id)).toEqual([9003, 9104, 9004]);
+    expect(data[0].distanceKm).toBeCloseTo(1.4, 0);
+    expect(data[2].distanceKm).toBeGreaterThan(200);
+  });
+
+  it("should filter by type", async () => {
+    const baseUrl = await startServer();
+    const response = await fetch(
+      `${baseUrl}/api/warehouses/nearest?${samarkand}&type=LOCKER`,
+    );
+
+    const { data } = await response.json();
+    expect(data).toHaveLength(4);
+    expect(data.every((point) => point.type === "LOCKER")).toBe(true);
+    expect(data[0].id).toBe(9104);
+  });
+
+  it("should reject missing coordinates and unknown types", async () => {
+    const baseUrl = await startServer();
+    const response = await fetch(
+      `${baseUrl}/api/warehouses/nearest?lat=39.65&type=DEPOT&limit=500`,
+    );
+
+    expect(response.status).toBe(400);
+    const body = await response.json();
+    expect(body.errors.map((error) => error.path)).toEqual([
+      "lon",
+      "type",
+      "limit",
+    ]);
+  });
+});
+
+describe("POST /api/admin/cache/purge", () => {
+  const adminToken = "test-admin-token-123";
+
+  function purge(baseUrl: string, token?: string) {
+    return fetch(`${baseUrl}/api/admin/cache/purge`, {
+      method: "POST",
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+  }
+
+  it("should be disabled without an admin token", async () => {
+    const baseUrl = await startServer();
+    expect((await purge(baseUrl, adminToken)).status).toBe(403);
+  });
+
+  it("should reject a wrong token", async () => {
+    const baseUrl = await startServer({ ADMIN_TOKEN: adminToken });
+    expect((await purge(baseUrl, "wrong")).status).toBe(401);
+  });
+
+  it("should purge cached lists", async () => {
+    const baseUrl = await startServer({ ADMIN_TOKEN: adminToken });
+    await fetch(`${baseUrl}/api/cities`);
+
+    const response = await purge(baseUrl, adminToken);
+    expect(response.status).toBe(200);
+    expect((await response.json()).purged).toEqual(["cities"]);
+
+    const refetched = await fetch(`${baseUrl}/api/cities`);
+    expect(refetched.headers.get("x-cache")).toBe("MISS");
+  });
+});
+
+describe("GET /api/diagnostics/warehouses", () => {
+  it("should report how offices and lockers were linked to cities", async () => {
+    const baseUrl = await startServer();
+    const body = await (
+      await fetch(`${baseUrl}/api/diagnostics/warehouses`)
+    ).json();
+
+    expect(body).toEqual({
+      total: 10,
+      byMethod: { shipox_id: 0, name: 10, proximity: 0 },
+      ambiguous: [],
+      unmatched: [],
+    });
+  });
+});
+
+describe("GET /api/lockers", () => {
+  it("should merge every page of lockers", async () => {
+    const baseUrl = await startServer({ FARGO_PAGE_SIZE: "3" });
+    const body = await (await fetch(`${baseUrl}/api/lockers`)).json();
+
+    expect(body.data).toHaveLength(4);
+    expect(body.totalElements).toBe(4);
+  });
+});
+
+describe("createServer", () => {
+  it("should refuse to start without gateway configuration", () => {
+    expect(() => createServer({ env: {} })).toThrow(/FARGO_GATEWAY_URL/);
+  });
+
+  it("should treat empty variables as unset", () => {
+    expect(() =>
+      createServer({
+        env: {
+          FARGO_GATEWAY_MODE: "simulator",
+          FARGO_USERNAME: "",
+          FARGO_PASSWORD: "",
+          FARGO_CUSTOMER_ID: "",
+          FARGO_MARKETPLACE_ID: "",
+          LOG_LEVEL: "silent",
+        },
+      }),
+    ).not.toThrow();
+  });
+});
+
+describe("X-Request-Id", () => {
+  it("should assign a request id to every response", async () => {
+    const baseUrl = await startServer();
+
+    const response = await fetch(`${baseUrl}/api/ping`);
+
+    expect(response.headers.get("x-request-id")).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it("should echo a well-formed incoming request id", async () => {
+    const baseUrl = await startServer();
+
+    const response = await fetch(`${baseUrl}/api/ping`, {
+      headers: { "X-Request-Id": "checkout-42" },
+    });
+
+    expect(response.headers.get("x-request-id")).toBe("checkout-42");
+  });
+
+  it("should replace a malformed incoming request id", async () => {
+    const baseUrl = await startServer();
+
+    const response = await fetch(`${baseUrl}/api/ping`, {
+      headers: { "X-Request-Id": "<script>" },
+    });
+
+    expect(response.headers.get("x-request-id")).not.toBe("<script>");
+  });
+});
+
+describe("rate limiting", () => {
+  const apiKey = "partner-key-0123456789";
+
+  it("should answer 429 with Retry-After once a client exceeds its limit", async () => {
+    const baseUrl = await startServer({
+      RATE_LIMIT_CALCULATION_PER_MINUTE: "2",
+    });
+
+    await calculate(baseUrl, tashkentToSamarkand);
+    const allowed = await calculate(baseUrl, tashkentToSamarkand);
+    const limited = await calculate(baseUrl, tashkentToSamarkand);
+
+    expect(allowed.headers.get("ratelimit-remaining")).toBe("0");
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get("retry-after")).toBe("30");
+    expect((await limited.json()).code).toBe("RATE_LIMITED");
+  });
+
+  it("should limit each endpoint class separately", async () => {
+    const baseUrl = await startServer({
+      RATE_LIMIT_CALCULATION_PER_MINUTE: "1",
+    });
+
+    await calculate(baseUrl, tashkentToSamarkand);
+
+    expect((await calculate(baseUrl, tashkentToSamarkand)).status).toBe(429);
+    expect((await fetch(`${baseUrl}/api/regions`)).status).toBe(200);
+  });
+
+  it("should give configured API keys their own, larger bucket", async () => {
+    const baseUrl = await startServer({
+      RATE_LIMIT_CALCULATION_PER_MINUTE: "1",
+      RATE_LIMIT_API_KEYS: apiKey,
+      RATE_LIMIT_API_KEY_MULTIPLIER: "2",
+    });
+    const withKey = (key: string) =>
+      fetch(`${baseUrl}/api/calculate-tariff`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-API-Key": key },
+        body: JSON.stringify(tashkentToSamarkand),
+      });
+
+    await calculate(baseUrl, tashkentToSamarkand);
+
+    expect((await withKey("unknown-key-0123456789")).status).toBe(429);
+    expect((await withKey(apiKey)).status).toBe(200);
+    expect((await withKey(apiKey)).status).toBe(200);
+    expect((await withKey(apiKey)).status).toBe(429);
+  });
+
+  it("should charge /all per tariff type and batches per shipment", async () => {
+    const baseUrl = await startServer({
+      RATE_LIMIT_CALCULATION_PER_MINUTE: "10",
+    });
+    const post = (path: string, body: unknown) =>
+      fetch(`${baseUrl}/api/calculate-tariff${path}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+    const { tariff_type, ...shipment } = tashkentToSamarkand;
+
+    const all = await post("/all", shipment);
+    const batch = await post("/batch", {
+      shipments: [
+        tashkentToSamarkand,
+        tashkentToSamarkand,
+        tashkentToSamarkand,
+      ],
+    });
+
+    expect(all.headers.get("ratelimit-remaining")).toBe("4");
+    expect(batch.headers.get("ratelimit-remaining")).toBe("1");
+    expect(
+      (await post("/batch", { shipments: [shipment, shipment] })).status,
+    ).toBe(429);
+    expect((await calculate(baseUrl, tashkentToSamarkand)).status).toBe(200);
+  });
+
+  it("should not limit a class set to 0", async () => {
+    const baseUrl = await startServer({ RATE_LIMIT_STATIC_PER_MINUTE: "0" });
+
+    const response = await fetch(`${baseUrl}/api/regions`);
+
+    expect(response.headers.get("ratelimit-limit")).toBeNull();
+  });
+});
+
+describe("GET /api/health", () => {
+  it("should report the build version and unloaded catalogs", async () => {
+    const baseUrl = await startServer({ BUILD_VERSION: "1.4.0" });
+
+    const response = await fetch(`${baseUrl}/api/health`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      status: "ok",
+      version: "1.4.0",
+      gateway: {
+        mode: "simulator",
+        circuit: "closed",
+        reachable: null,
+        token: { valid: false, expiresAt: null },
+      },
+      catalogs: {
+        cities: { loaded: false, records: 0, ageSeconds: null },
+      },
+    });
+  });
+
+  it("should report the token and catalogs once loaded", async () => {
+    const baseUrl = await startServer();
+    await fetch(`${baseUrl}/api/cities`);
+
+    const body = await (await fetch(`${baseUrl}/api/health`)).json();
+
+    expect(body.gateway.reachable).toBe(true);
+    expect(body.gateway.token.valid).toBe(true);
+    expect(Date.parse(body.gateway.token.expiresAt)).toBeGreaterThan(
+      Date.now(),
+    );
+    expect(body.catalogs.cities).toMatchObject({ loaded: true, stale: false });
+    expect(body.catalogs.cities.records).toBeGreaterThan(0);
+    expect(body.catalogs.lockers.loaded).toBe(false);
+  });
+
+  it("should report a degraded gateway", async () => {
+    const baseUrl = await startServer({
+      FARGO_SIMULATOR_SCENARIO: "server-error",
+    });
+    await fetch(`${baseUrl}/api/cities`);
+
+    const body = await (await fetch(`${baseUrl}/api/health`)).json();
+
+    expect(body.status).toBe("degraded");
+    expect(body.gateway).toMatchObject({
+      reachable: false,
+      lastError: "/api/v1/authenticate answered 500",
+    });
+  });
+});
+
+describe("GET /api/ready", () => {
+  it("should authenticate, load the catalogs and answer 200", async () => {
+    const baseUrl = await startServer();
+
+    const response = await fetch(`${baseUrl}/api/ready`);
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(body.ready).toBe(true);
+    expect(body.checks).toEqual({
+      gateway: { ok: true },
+      catalogs: { ok: true },
+    });
+    expect(body.catalogs.warehouses.loaded).toBe(true);
+  });
+
+  it("should answer 503 when the gateway rejects the credentials", async () => {
+    const baseUrl = await startServer({
+      FARGO_SIMULATOR_SCENARIO: "unauthorized",
+    });
+
+    const response = await fetch(`${baseUrl}/api/ready`);
+
+    expect(response.status).toBe(503);
+    const body = await response.json();
+    expect(body.ready).toBe(false);
+    expect(body.checks.gateway.error).toContain("401");
+  });
+});
+
+describe("GET /api/metrics", () => {
+  it("should expose request, gateway, cache and quote metrics", async () => {
+    const baseUrl = await startServer({ BUILD_VERSION: "1.4.0" });
+    await calculate(baseUrl, tashkentToSamarkand);
+    await fetch(`${baseUrl}/api/cities`);
+    await fetch(`${baseUrl}/api/cities`);
+    await fetch(`${baseUrl}/api/regions/tashkent_city/cities`);
+
+    const response = await fetch(`${baseUrl}/api/metrics`);
+
+    expect(response.headers.get("content-type")).toContain("text/plain");
+    const text = await response.text();
+    expect(text).toContain(
+      'http_requests_total{method="POST",route="/api/calculate-tariff",status="200"} 1',
+    );
+    expect(text).toContain(
+      'http_requests_total{method="GET",route="/api/regions/:regionId/cities",status="200"} 1',
+    );
+    expect(text).toContain(
+      'http_request_duration_seconds_count{method="GET",route="/api/cities"} 2',
+    );
+    expect(text).toContain(
+      'gateway_requests_total{endpoint="/api/v2/admin/packages/prices",status="200"} 1',
+    );
+    expect(text).toContain(
+      'gateway_request_duration_seconds_count{endpoint="/api/v1/authenticate"} 1',
+    );
+    expect(text).toContain('gateway_token_refreshes_total{result="success"} 1');
+    expect(text).toContain('cache_hit_ratio{key="cities"} 0.5');
+    expect(text).toContain(
+      'quotes_total{tariff_type="OFFICE_OFFICE",source="gateway"} 1',
+    );
+    expect(text).toContain('build_info{version="1.4.0"} 1');
+  });
+
+  it("should count gateway errors by reason", async () => {
+    const baseUrl = await startServer({
+      FARGO_SIMULATOR_SCENARIO: "server-error",
+    });
+    await calculate(baseUrl, tashkentToSamarkand);
+
+    const text = await (await fetch(`${baseUrl}/api/metrics`)).text();
+
+    expect(text).toContain(
+      'gateway_errors_total{endpoint="/api/v1/authenticate",reason="server_error"} 1',
+    );
+    expect(text).toContain('gateway_token_refreshes_total{result="failure"} 1');
+    expect(text).toContain(
+      'quotes_total{tariff_type="OFFICE_OFFICE",source="rate_card"} 1',
+    );
+  });
+});
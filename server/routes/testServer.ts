@@ -0,0 +1,29 @@
+import { AddressInfo } from "net";
+import { Server } from "http";
+import { createServer } from "../index";
+
+/**
+ * Route specs run the real app on a random port against the gateway
+ * simulator. One server at a time; call stopServer from afterEach.
+ */
+
+let server: Server | null = null;
+
+// Starts the app against the gateway simulator and returns its base URL
+export async function startServer(env: Record<string, string> = {}) {
+  const app = createServer({
+    env: { FARGO_GATEWAY_MODE: "simulator", LOG_LEVEL: "silent", ...env },
+  });
+  server = await new Promise<Server>((resolve) => {
+    const listening = app.listen(0, () => resolve(listening));
+  });
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+export async function stopServer() {
+  if (!server) return;
+  const stopping = server;
+  server = null;
+  stopping.closeAllConnections();
+  await new Promise((resolve) => stopping.close(resolve));
+}
@@ -3,6 +3,7 @@
  * Useful to share types between client and server
  * and/or small pure JS functions that can be used on both client and server
  */
+import { z } from "zod";
 
 /**
  * Example response type for /api/demo
@@ -35,14 +36,390 @@ export interface CitiesResponse {
   number?: number;
 }
 
-export type TariffType =
-  | "OFFICE_OFFICE"
-  | "OFFICE_DOOR"
-  | "DOOR_OFFICE"
-  | "DOOR_DOOR"
-  | "OFFICE_POSTAMAT"
-  | "DOOR_POSTAMAT";
+export const TARIFF_TYPES = [
+  "OFFICE_OFFICE",
+  "OFFICE_DOOR",
+  "DOOR_OFFICE",
+  "DOOR_DOOR",
+  "OFFICE_POSTAMAT",
+  "DOOR_POSTAMAT",
+] as const;
 
+export type TariffType = (typeof TARIFF_TYPES)[number];
+
+/**
+ * Validation schemas for /api/calculate-tariff.
+ * Used by the server handler and by the calculator form so both sides
+ * reject the same input with the same messages.
+ */
+
+// Coordinates outside this box cannot be served by FARGO
+export const UZBEKISTAN_BOUNDS = {
+  minLatitude: 37.1,
+  maxLatitude: 45.6,
+  minLongitude: 55.9,
+  maxLongitude: 73.2,
+};
+
+export const MAX_WEIGHT_KG = 1500;
+export const MAX_DIMENSION_CM = 300;
+export const MAX_AMOUNT_UZS = 1_000_000_000;
+
+// Volumetric weight (kg) = length × width × height (cm) / 6000
+export const VOLUMETRIC_DIVISOR = 6000;
+
+const numberField = (name: string) =>
+  z.number({
+    required_error: `${name} is required`,
+    invalid_type_error: `${name} must be a number`,
+  });
+
+// Accept numeric strings, as sent by urlencoded bodies and form inputs
+const numeric = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(
+    (value) =>
+      typeof value === "string" && value.trim() !== "" ? Number(value) : value,
+    schema,
+  );
+
+const latitudeSchema = (name: string) =>
+  numeric(
+    numberField(name)
+      .min(
+        UZBEKISTAN_BOUNDS.minLatitude,
+        `${name} must be within Uzbekistan (${UZBEKISTAN_BOUNDS.minLatitude}..${UZBEKISTAN_BOUNDS.maxLatitude})`,
+      )
+      .max(
+        UZBEKISTAN_BOUNDS.maxLatitude,
+        `${name} must be within Uzbekistan (${UZBEKISTAN_BOUNDS.minLatitude}..${UZBEKISTAN_BOUNDS.maxLatitude})`,
+      ),
+  );
+
+const longitudeSchema = (name: string) =>
+  numeric(
+    numberField(name)
+      .min(
+        UZBEKISTAN_BOUNDS.minLongitude,
+        `${name} must be within Uzbekistan (${UZBEKISTAN_BOUNDS.minLongitude}..${UZBEKISTAN_BOUNDS.maxLongitude})`,
+      )
+      .max(
+        UZBEKISTAN_BOUNDS.maxLongitude,
+        `${name} must be within Uzbekistan (${UZBEKISTAN_BOUNDS.minLongitude}..${UZBEKISTAN_BOUNDS.maxLongitude})`,
+      ),
+  );
+
+export const weightSchema = numeric(
+  numberField("weight")
+    .positive("weight must be greater than 0")
+    .max(MAX_WEIGHT_KG, `weight must not exceed ${MAX_WEIGHT_KG} kg`),
+);
+
+const dimensionSchema = (name: string) =>
+  numeric(
+    numberField(name)
+      .positive(`${name} must be greater than 0`)
+      .max(MAX_DIMENSION_CM, `${name} must not exceed ${MAX_DIMENSION_CM} cm`),
+  ).optional();
+
+const amountSchema = (name: string) =>
+  numeric(
+    numberField(name)
+      .nonnegative(`${name} must not be negative`)
+      .max(MAX_AMOUNT_UZS, `${name} must not exceed ${MAX_AMOUNT_UZS} UZS`),
+  ).optional();
+
+export const tariffTypeSchema = z.enum(TARIFF_TYPES, {
+  errorMap: () => ({
+    message: `tariff_type must be one of: ${TARIFF_TYPES.join(", ")}`,
+  }),
+});
+
+export const tariffCalculationBaseSchema = z.object({
+  from_latitude: latitudeSchema("from_latitude"),
+  from_longitude: longitudeSchema("from_longitude"),
+  to_latitude: latitudeSchema("to_latitude"),
+  to_longitude: longitudeSchema("to_longitude"),
+  weight: weightSchema,
+  /** Parcel dimensions in cm, all three or none */
+  length: dimensionSchema("length"),
+  width: dimensionSchema("width"),
+  height: dimensionSchema("height"),
+  /** Cash to collect from the recipient, UZS */
+  cod_amount: amountSchema("cod_amount"),
+  /** Declared value of the contents, UZS */
+  declared_value: amountSchema("declared_value"),
+  tariff_type: tariffTypeSchema,
+});
+
+export function requireAllDimensions(
+  value: { length?: number; width?: number; height?: number },
+  ctx: z.RefinementCtx,
+) {
+  const dimensions = ["length", "width", "height"] as const;
+  const given = dimensions.filter((name) => value[name] !== undefined);
+
+  if (given.length > 0 && given.length < dimensions.length) {
+    for (const name of dimensions) {
+      if (value[name] === undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [name],
+          message: "length, width and height must be given together",
+        });
+      }
+    }
+  }
+}
+
+const requiredCityIdSchema = (name: string) =>
+  numeric(
+    numberField(name)
+      .int(`${name} must be an integer`)
+      .positive(`${name} must be a shipox_id`),
+  );
+
+const cityIdSchema = (name: string) => requiredCityIdSchema(name).optional();
+
+/**
+ * Body of POST /api/calculate-tariff.
+ * City ids (shipox_id) are optional; when given, a tariff type the cities
+ * have no office or locker for is rejected.
+ */
+export const tariffCalculationInputSchema = tariffCalculationBaseSchema
+  .extend({
+    from_city_id: cityIdSchema("from_city_id"),
+    to_city_id: cityIdSchema("to_city_id"),
+  })
+  .superRefine(requireAllDimensions);
+
+/**
+ * Body of POST /api/calculate-tariff
+ */
+export type TariffCalculationInput = z.infer<
+  typeof tariffCalculationInputSchema
+>;
+
+/**
+ * Body of POST /api/calculate-tariff/all.
+ * City ids (shipox_id) are optional; when given, tariff types that need an
+ * office or locker the city does not have are left out of the quote.
+ */
+export const allTariffsInputSchema = tariffCalculationBaseSchema
+  .omit({ tariff_type: true })
+  .extend({
+    from_city_id: cityIdSchema("from_city_id"),
+    to_city_id: cityIdSchema("to_city_id"),
+  })
+  .superRefine(requireAllDimensions);
+
+export type AllTariffsInput = z.infer<typeof allTariffsInputSchema>;
+
+export const MAX_BATCH_SIZE = 500;
+
+function requireEndpoint(
+  value: Record<string, unknown>,
+  ctx: z.RefinementCtx,
+  side: "from" | "to",
+) {
+  const hasCoordinates =
+    value[`${side}_latitude`] !== undefined &&
+    value[`${side}_longitude`] !== undefined;
+
+  if (value[`${side}_city_id`] === undefined && !hasCoordinates) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: [`${side}_city_id`],
+      message: `${side}_city_id or ${side}_latitude and ${side}_longitude are required`,
+    });
+  }
+}
+
+/**
+ * One shipment of POST /api/calculate-tariff/batch.
+ * Each end is given either as a city (shipox_id) or as coordinates.
+ */
+export const batchShipmentSchema = tariffCalculationBaseSchema
+  .partial({
+    from_latitude: true,
+    from_longitude: true,
+    to_latitude: true,
+    to_longitude: true,
+  })
+  .extend({
+    /** Caller's reference, echoed back in the result */
+    id: z.union([z.string(), z.number()]).optional(),
+    from_city_id: cityIdSchema("from_city_id"),
+    to_city_id: cityIdSchema("to_city_id"),
+  })
+  .superRefine((value, ctx) => {
+    requireAllDimensions(value, ctx);
+    requireEndpoint(value, ctx, "from");
+    requireEndpoint(value, ctx, "to");
+  });
+
+export type BatchShipment = z.infer<typeof batchShipmentSchema>;
+
+// Shipments are validated one by one so a bad item does not fail the batch
+export const batchTariffInputSchema = z.object({
+  shipments: z
+    .array(z.unknown(), {
+      required_error: "shipments is required",
+      invalid_type_error: "shipments must be an array",
+    })
+    .min(1, "shipments must not be empty")
+    .max(MAX_BATCH_SIZE, `shipments must not exceed ${MAX_BATCH_SIZE} items`),
+});
+
+/**
+ * What each end of a delivery needs for a tariff type:
+ * OFFICE_* starts at an office, *_OFFICE ends at one, *_POSTAMAT ends at a locker
+ */
+export function getTariffRequirements(type: TariffType) {
+  return {
+    originOffice: type.startsWith("OFFICE"),
+    destinationOffice: type.endsWith("OFFICE"),
+    destinationLocker: type.endsWith("POSTAMAT"),
+  };
+}
+
+export type TariffExclusionReason =
+  | "NO_ORIGIN_OFFICE"
+  | "NO_DESTINATION_OFFICE"
+  | "NO_DESTINATION_LOCKER";
+
+/** What each end of a delivery has; undefined when it is not known */
+export interface RouteServices {
+  originOffice?: boolean;
+  destinationOffice?: boolean;
+  destinationLocker?: boolean;
+}
+
+/**
+ * Why a tariff type cannot run given what each end has, null when it can.
+ * Unknown services never exclude a type.
+ */
+export function findTariffExclusion(
+  type: TariffType,
+  services: RouteServices,
+): TariffExclusionReason | null {
+  const needs = getTariffRequirements(type);
+
+  if (needs.originOffice && services.originOffice === false) {
+    return "NO_ORIGIN_OFFICE";
+  }
+  if (needs.destinationOffice && services.destinationOffice === false) {
+    return "NO_DESTINATION_OFFICE";
+  }
+  if (needs.destinationLocker && services.destinationLocker === false) {
+    return "NO_DESTINATION_LOCKER";
+  }
+  return null;
+}
+
+/**
+ * Query of GET /api/availability, both ends as shipox_id
+ */
+export const availabilityQuerySchema = z.object({
+  origin: requiredCityIdSchema("origin"),
+  destination: requiredCityIdSchema("destination"),
+});
+
+export interface TariffAvailability {
+  tariff_type: TariffType;
+  available: boolean;
+  /** Why the type is unavailable, absent when available */
+  reason?: TariffExclusionReason;
+}
+
+/**
+ * Response of GET /api/availability, one entry per tariff type
+ */
+export interface AvailabilityResponse {
+  origin: number;
+  destination: number;
+  data: TariffAvailability[];
+}
+
+/**
+ * 422 response of POST /api/calculate-tariff when the cities cannot be
+ * served with the requested tariff type
+ */
+export interface TariffUnavailableResponse {
+  error: string;
+  code: "TARIFF_UNAVAILABLE";
+  reason: TariffExclusionReason;
+  details: string;
+}
+
+export interface ParcelWeights {
+  /** Weight as entered, kg */
+  physical: number;
+  /** (L × W × H) / 6000, kg; 0 when no dimensions were given */
+  volumetric: number;
+  /** The larger of the two, used for pricing */
+  chargeable: number;
+}
+
+export function calculateParcelWeights(parcel: {
+  weight: number;
+  length?: number;
+  width?: number;
+  height?: number;
+}): ParcelWeights {
+  const { weight, length, width, height } = parcel;
+  const volumetric =
+    length && width && height
+      ? Math.round(((length * width * height) / VOLUMETRIC_DIVISOR) * 100) / 100
+      : 0;
+
+  return {
+    physical: weight,
+    volumetric,
+    chargeable: Math.max(weight, volumetric),
+  };
+}
+
+export interface FieldError {
+  code: string;
+  path: string;
+  message: string;
+}
+
+/**
+ * 400 response returned when a request body fails schema validation
+ */
+export interface ValidationErrorResponse {
+  error: string;
+  code: "VALIDATION_ERROR";
+  errors: FieldError[];
+}
+
+/**
+ * 422, 429 and 5xx response returned when a request could not be served.
+ * `code` tells rate limiting, gateway outages and shipments the gateway
+ * refused apart from other failures.
+ */
+export interface ErrorResponse {
+  error: string;
+  code?:
+    | "RATE_LIMITED"
+    | "GATEWAY_UNAVAILABLE"
+    | "GATEWAY_TIMEOUT"
+    | "SHIPMENT_REJECTED";
+  details: string;
+}
+
+export function toFieldErrors(error: z.ZodError): FieldError[] {
+  return error.issues.map((issue) => ({
+    code: issue.code,
+    path: issue.path.join("."),
+    message: issue.message,
+  }));
+}
+
+/**
+ * Query parameters sent to the FARGO prices endpoint
+ */
 export interface TariffCalculationRequest {
   from_latitude: number;
   from_longitude: number;
@@ -81,6 +458,33 @@ export interface TariffPrice {
     delivery_time_min?: number;
     delivery_time_max?: number;
   };
+  /** Priced from the local rate card because the gateway could not quote */
+  estimate?: boolean;
+  /** Delivery plus COD and declared-value fees, added by the server */
+  breakdown?: PriceBreakdown;
+}
+
+/**
+ * One item of a quote, in UZS
+ */
+export interface PriceLine {
+  net: number;
+  vat: number;
+  gross: number;
+}
+
+/**
+ * Itemized cost of one quote with VAT shown separately
+ */
+export interface PriceBreakdown {
+  /** VAT rate applied, e.g. 0.12 */
+  vatRate: number;
+  delivery: PriceLine;
+  /** Cash-on-delivery commission */
+  codFee: PriceLine;
+  /** Declared-value surcharge */
+  declaredValueFee: PriceLine;
+  total: PriceLine;
 }
 
 export interface TariffCalculationResponse {
@@ -88,17 +492,83 @@ export interface TariffCalculationResponse {
     total: number;
     list: TariffPrice[];
   };
+  weights: ParcelWeights;
+  /** True when the prices come from the rate card, not the gateway */
+  estimate: boolean;
+}
+
+export interface ExcludedTariff {
+  tariff_type: TariffType;
+  reason: TariffExclusionReason;
+}
+
+export interface FailedTariff {
+  tariff_type: TariffType;
+  error: string;
+}
+
+/**
+ * Response of POST /api/calculate-tariff/all.
+ * The list is sorted by price, then by delivery time.
+ */
+export interface AllTariffsResponse {
+  data: {
+    total: number;
+    list: TariffPrice[];
+  };
+  cheapest: TariffType | null;
+  fastest: TariffType | null;
+  /** Types left out because an office or locker is missing */
+  excluded: ExcludedTariff[];
+  /** Types the gateway could not quote */
+  failed: FailedTariff[];
+  weights: ParcelWeights;
+  /** True when any price comes from the rate card */
+  estimate: boolean;
+}
+
+export type BatchTariffResult =
+  | {
+      index: number;
+      id?: string | number;
+      status: "ok";
+      data: { total: number; list: TariffPrice[] };
+      weights: ParcelWeights;
+      estimate: boolean;
+    }
+  | {
+      index: number;
+      id?: string | number;
+      status: "error";
+      error: string;
+      /** Per-field problems when the shipment failed validation */
+      errors?: FieldError[];
+      /** Set when the tariff type cannot serve the shipment's cities */
+      code?: "TARIFF_UNAVAILABLE";
+      reason?: TariffExclusionReason;
+    };
+
+/**
+ * Response of POST /api/calculate-tariff/batch, results in request order
+ */
+export interface BatchTariffResponse {
+  data: BatchTariffResult[];
+  total: number;
+  succeeded: number;
+  failed: number;
 }
 
 export interface AuthResponse {
   id_token: string;
-  expires_in: number;
+  expires_in?: number;
 }
 
 export interface Warehouse {
   id: number;
   name: string;
   city: string;
+  /** shipox_id of the city, when the gateway sends it */
+  city_id?: number;
   address: string;
   lat: number;
   lon: number;
@@ -107,6 +577,114 @@ export interface Warehouse {
   type: string;
 }
 
+/**
+ * Schema drift counters for one kind of gateway payload,
+ * served by /api/diagnostics/schema
+ */
+export interface SchemaDriftReport {
+  kind: string;
+  lastCheckedAt: string | null;
+  /** Where the list or token was found in the last payload */
+  lastPath: string | null;
+  received: number;
+  accepted: number;
+  repaired: number;
+  dropped: number;
+  lastError: string | null;
+  sampleIssues: {
+    action: "repaired" | "dropped";
+    path: string;
+    message: string;
+  }[];
+}
+
+export interface SchemaDiagnostics {
+  data: SchemaDriftReport[];
+}
+
+export type CityMatchMethod = "shipox_id" | "name" | "proximity";
+
+/**
+ * Which catalog city a warehouse or locker was linked to, and how
+ */
+export interface WarehouseCityMatch {
+  warehouseId: number;
+  /** City as the gateway spelled it */
+  warehouseCity: string;
+  /** null when no city matched */
+  cityId: number | null;
+  method: CityMatchMethod | null;
+  /** Other cities that matched as well, when the match is ambiguous */
+  candidates: number[];
+}
+
+/**
+ * Response of GET /api/diagnostics/warehouses
+ */
+export interface WarehouseMatchingDiagnostics {
+  total: number;
+  byMethod: Record<CityMatchMethod, number>;
+  ambiguous: WarehouseCityMatch[];
+  unmatched: WarehouseCityMatch[];
+}
+
+/**
+ * Response of POST /api/admin/cache/purge
+ */
+export interface CachePurgeResponse {
+  purged: string[];
+}
+
+export interface GatewayHealth {
+  mode: "live" | "simulator";
+  circuit: "closed" | "open" | "half-open";
+  /** Whether the last gateway call succeeded; null before the first one */
+  reachable: boolean | null;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+  token: {
+    valid: boolean;
+    expiresAt: string | null;
+  };
+}
+
+export interface CatalogHealth {
+  loaded: boolean;
+  records: number;
+  fetchedAt: string | null;
+  ageSeconds: number | null;
+  /** Older than its TTL, served while a refresh runs or the gateway is down */
+  stale: boolean;
+}
+
+/**
+ * Response of GET /api/health: what the server knows without calling out
+ */
+export interface HealthResponse {
+  status: "ok" | "degraded";
+  version: string;
+  uptimeSeconds: number;
+  gateway: GatewayHealth;
+  catalogs: Record<"cities" | "warehouses" | "lockers", CatalogHealth>;
+}
+
+export interface ReadinessCheck {
+  ok: boolean;
+  error?: string;
+}
+
+/**
+ * Response of GET /api/ready, 503 unless every check passes
+ */
+export interface ReadinessResponse extends HealthResponse {
+  ready: boolean;
+  checks: {
+    gateway: ReadinessCheck;
+    catalogs: ReadinessCheck;
+  };
+}
+
 export interface WarehousesResponse {
   data: Warehouse[];
   totalElements?: number;
@@ -118,6 +696,50 @@ export interface WarehousesResponse {
   number?: number;
 }
 
+export const WAREHOUSE_TYPES = ["POST_OFFICE", "LOCKER"] as const;
+
+export type WarehouseType = (typeof WAREHOUSE_TYPES)[number];
+
+export const MAX_NEAREST_LIMIT = 50;
+
+/**
+ * Query of GET /api/warehouses/nearest.
+ * Without `type` offices and lockers are searched together.
+ */
+export const nearestWarehousesQuerySchema = z.object({
+  lat: latitudeSchema("lat"),
+  lon: longitudeSchema("lon"),
+  type: z
+    .enum(WAREHOUSE_TYPES, {
+      errorMap: () => ({
+        message: `type must be one of: ${WAREHOUSE_TYPES.join(", ")}`,
+      }),
+    })
+    .optional(),
+  limit: numeric(
+    numberField("limit")
+      .int("limit must be an integer")
+      .positive("limit must be greater than 0")
+      .max(MAX_NEAREST_LIMIT, `limit must not exceed ${MAX_NEAREST_LIMIT}`),
+  ).default(10),
+});
+
+export type NearestWarehousesQuery = z.infer<
+  typeof nearestWarehousesQuerySchema
+>;
+
+export interface NearestWarehouse extends Warehouse {
+  /** Great-circle distance from the given point, km */
+  distanceKm: number;
+}
+
+/**
+ * Response of GET /api/warehouses/nearest, closest first
+ */
+export interface NearestWarehousesResponse {
+  data: NearestWarehouse[];
+}
+
 export interface TariffCalculatorForm {
   originCity: City | null;
   destinationCity: City | null;
@@ -130,6 +752,11 @@ export interface RegionBasedTariffCalculatorForm {
   destinationCity: RegionCity | null;
   tariffType: TariffType | null;
   weight: string;
+  length: string;
+  width: string;
+  height: string;
+  codAmount: string;
+  declaredValue: string;
 }
 
 /**
@@ -155,9 +782,67 @@ export interface RegionCity {
 }
 
 export interface RegionsResponse {
+  /** Version of the region and city directory */
+  version: string;
   data: Region[];
 }
 
 export interface RegionCitiesResponse {
+  /** Version of the region and city directory */
+  version: string;
   data: RegionCity[];
 }
+
+export const CITY_NAME_LANGUAGES = ["uz", "ru", "en"] as const;
+
+export type CityNameLanguage = (typeof CITY_NAME_LANGUAGES)[number];
+
+export const MAX_CITY_SEARCH_LIMIT = 50;
+
+/**
+ * Query of GET /api/cities/search.
+ * `q` is matched against every language; `lang` only breaks ties and
+ * orders results.
+ */
+export const citySearchQuerySchema = z.object({
+  q: z
+    .string({ required_error: "q is required" })
+    .trim()
+    .min(1, "q is required")
+    .max(100, "q must not exceed 100 characters"),
+  lang: z
+    .enum(CITY_NAME_LANGUAGES, {
+      errorMap: () => ({
+        message: `lang must be one of: ${CITY_NAME_LANGUAGES.join(", ")}`,
+      }),
+    })
+    .default("ru"),
+  limit: numeric(
+    numberField("limit")
+      .int("limit must be an integer")
+      .positive("limit must be greater than 0")
+      .max(
+        MAX_CITY_SEARCH_LIMIT,
+        `limit must not exceed ${MAX_CITY_SEARCH_LIMIT}`,
+      ),
+  ).default(10),
+});
+
+export type CitySearchQuery = z.infer<typeof citySearchQuerySchema>;
+
+/** How a search result matched, best first; "region" matched its region */
+export type CitySearchMatch = "prefix" | "word" | "fuzzy" | "region";
+
+export interface CitySearchResult extends RegionCity {
+  region: Region;
+  match: CitySearchMatch;
+}
+
+/**
+ * Response of GET /api/cities/search, best matches first
+ */
+export interface CitySearchResponse {
+  /** Version of the region and city directory */
+  version: string;
+  data: CitySearchResult[];
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import { City, Warehouse } from "./api";
+import {
+  cityNameKey,
+  indexCities,
+  isSameCityName,
+  matchWarehouseCity,
+  matchWarehouses,
+} from "./cityMatching";
+
+const city = (id: number, name: string, lat = 0, lon = 0): City => ({
+  id,
+  name,
+  center_latitude: lat,
+  center_longitude: lon,
+  country_id: 234,
+  status: "active",
+});
+
+const warehouse = (
+  id: number,
+  cityName: string,
+  lat = 0,
+  lon = 0,
+  extra: Partial<Warehouse> = {},
+): Warehouse => ({
+  id,
+  name: `FARGO ${id}`,
+  city: cityName,
+  address: "",
+  lat,
+  lon,
+  status: "active",
+  type: "POST_OFFICE",
+  ...extra,
+});
+
+const andijan = city(1125210871, "Андижан", 40.7821, 72.3442);
+const tashkent = city(1216279901, "Ташкент", 41.3111, 69.2797);
+const samarkand = city(263947403, "Самарканд", 39.6542, 66.9597);
+
+describe("cityNameKey", () => {
+  it("should ignore city prefixes and suffixes", () => {
+    expect(cityNameKey("г. Андижан")).toBe(cityNameKey("Андижан"));
+    expect(cityNameKey("город Андижан")).toBe(cityNameKey("Андижан"));
+    expect(cityNameKey("Andijon shahri")).toBe(cityNameKey("Андижан"));
+  });
+
+  it("should match Russian, Uzbek Cyrillic and Uzbek Latin spellings", () => {
+    expect(cityNameKey("Toshkent")).toBe(cityNameKey("Ташкент"));
+    expect(cityNameKey("Samarqand")).toBe(cityNameKey("Самарканд"));
+    expect(cityNameKey("Buxoro")).toBe(cityNameKey("Бухара"));
+    expect(cityNameKey("Farg'ona")).toBe(cityNameKey("Фергана"));
+    expect(cityNameKey("Fargʻona")).toBe(cityNameKey("Фарғона"));
+    expect(cityNameKey("Urganch")).toBe(cityNameKey("Ургенч"));
+  });
+
+  it("should keep different cities and districts apart", () => {
+    expect(cityNameKey("Андижан")).not.toBe(cityNameKey("Ташкент"));
+    expect(cityNameKey("Андижанский район")).not.toBe(cityNameKey("Андижан"));
+    expect(isSameCityName("г.", "shahri")).toBe(false);
+  });
+
+  it("should not merge names that differ only in a, e and o", () => {
+    expect(isSameCityName("Kogon", "Kegen")).toBe(false);
+
+    const kogon = city(263947055, "Kogon", 39.7225, 64.5517);
+    const matches = matchWarehouses([warehouse(9, "Kegen")], [kogon]);
+    expect(matches[0]).toMatchObject({ cityId: null, method: null });
+  });
+});
+
+describe("matchWarehouseCity", () => {
+  const index = indexCities([andijan, tashkent, samarkand]);
+
+  it("should prefer the city id sent by the gateway", () => {
+    const match = matchWarehouseCity(
+      warehouse(1, "Ташкент", 0, 0, { city_id: samarkand.id }),
+      index,
+    );
+
+    expect(match).toMatchObject({ cityId: samarkand.id, method: "shipox_id" });
+  });
+
+  it("should match by name across spellings", () => {
+    expect(matchWarehouseCity(warehouse(2, "г. Андижан"), index)).toEqual({
+      warehouseId: 2,
+      warehouseCity: "г. Андижан",
+      cityId: andijan.id,
+      method: "name",
+      candidates: [],
+    });
+  });
+
+  it("should fall back to the nearest city center", () => {
+    const match = matchWarehouseCity(
+      warehouse(3, "Чиланзар", 41.2856, 69.2034),
+      index,
+    );
+
+    expect(match).toMatchObject({ cityId: tashkent.id, method: "proximity" });
+  });
+
+  it("should leave far away or unlocated warehouses unmatched", () => {
+    expect(
+      matchWarehouseCity(warehouse(4, "Нукус", 42.46, 59.6), index),
+    ).toMatchObject({ cityId: null, method: null });
+    expect(matchWarehouseCity(warehouse(5, "Нукус"), index)).toMatchObject({
+      cityId: null,
+      method: null,
+    });
+  });
+
+  it("should report a proximity match as ambiguous only on a near tie", () => {
+    const point = warehouse(8, "Маргилан", 40.47, 71.72);
+    const near = city(10, "Фергана", 40.47, 71.74);
+    const tie = city(11, "Кувасай", 40.47, 71.695);
+    const further = city(12, "Кува", 40.55, 71.72);
+
+    expect(matchWarehouses([point], [further, near])[0]).toMatchObject({
+      cityId: near.id,
+      method: "proximity",
+      candidates: [],
+    });
+    expect(matchWarehouses([point], [further, tie, near])[0]).toMatchObject({
+      cityId: near.id,
+      method: "proximity",
+      candidates: [tie.id],
+    });
+  });
+
+  it("should report ambiguous matches with the nearest city first", () => {
+    const [match] = matchWarehouses(
+      [warehouse(6, "Andijon", 40.78, 72.35)],
+      [city(7, "Andijon", 40.8, 72.1), andijan],
+    );
+
+    expect(match).toMatchObject({
+      cityId: andijan.id,
+      method: "name",
+      candidates: [7],
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { City, CityMatchMethod, Warehouse, WarehouseCityMatch } from "./api";
+import { haversineKm } from "./geo";
+import { matchKey } from "./transliteration";
+
+/**
+ * Links gateway warehouses and lockers to catalog cities.
+ * The gateway spells the same city in Russian, Uzbek Cyrillic or Uzbek
+ * Latin, with or without "г." / "shahri", so names are compared by their
+ * shared/transliteration match key. Matching tries, in order: the city's
+ * shipox_id when the gateway sends it, the name key, then the nearest city center.
+ * Matches with more than one plausible city are reported as ambiguous.
+ */
+
+/** Warehouses further than this from every city center stay unmatched */
+export const MAX_MATCH_DISTANCE_KM = 20;
+
+/**
+ * A proximity match is ambiguous only when another city center is at most
+ * this much further away than the nearest one
+ */
+export const AMBIGUOUS_DISTANCE_MARGIN_KM = 3;
+
+/**
+ * Spelling-insensitive key of a city name, without "city" words. District
+ * words stay, so a district never matches the city it is named after.
+ */
+export function cityNameKey(name: string): string {
+  return matchKey(name, ["city"]);
+}
+
+export interface CityIndex {
+  cities: City[];
+  byId: Map<number, City>;
+  byName: Map<string, City[]>;
+}
+
+export function indexCities(cities: City[]): CityIndex {
+  const byName = new Map<string, City[]>();
+  for (const city of cities) {
+    const key = cityNameKey(city.name);
+    if (!key) continue;
+    byName.set(key, [...(byName.get(key) ?? []), city]);
+  }
+
+  return {
+    cities,
+    byId: new Map(cities.map((city) => [city.id, city])),
+    byName,
+  };
+}
+
+// Points and cities recorded without coordinates come through as 0, 0
+const hasCoordinates = (latitude: number, longitude: number) =>
+  Boolean(latitude || longitude);
+
+// Nearest first; cities without coordinates sort last
+function byDistance(warehouse: Warehouse, cities: City[]) {
+  const point = { latitude: warehouse.lat, longitude: warehouse.lon };
+
+  return cities
+    .map((city) => ({
+      city,
+      distanceKm: hasCoordinates(city.center_latitude, city.center_longitude)
+        ? haversineKm(point, {
+            latitude: city.center_latitude,
+            longitude: city.center_longitude,
+          })
+        : Infinity,
+    }))
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+}
+
+export function matchWarehouseCity(
+  warehouse: Warehouse,
+  index: CityIndex,
+): WarehouseCityMatch {
+  const match = (
+    method: CityMatchMethod | null,
+    [city, ...others]: City[] = [],
+  ): WarehouseCityMatch => ({
+    warehouseId: warehouse.id,
+    warehouseCity: warehouse.city,
+    cityId: city?.id ?? null,
+    method,
+    candidates: others.map((other) => other.id),
+  });
+
+  const byId = warehouse.city_id && index.byId.get(warehouse.city_id);
+  if (byId) return match("shipox_id", [byId]);
+
+  const locatable = hasCoordinates(warehouse.lat, warehouse.lon);
+  const named = index.byName.get(cityNameKey(warehouse.city)) ?? [];
+  if (named.length > 0) {
+    // The same name twice: the nearest one is the best guess
+    return match(
+      "name",
+      locatable ? byDistance(warehouse, named).map(({ city }) => city) : named,
+    );
+  }
+
+  if (!locatable) return match(null);
+
+  const [nearest, ...others] = byDistance(warehouse, index.cities);
+  if (!nearest || nearest.distanceKm > MAX_MATCH_DISTANCE_KM) {
+    return match(null);
+  }
+  // In dense areas many centers lie within range; only near ties are doubtful
+  const rivals = others.filter(
+    ({ distanceKm }) =>
+      distanceKm <= MAX_MATCH_DISTANCE_KM &&
+      distanceKm - nearest.distanceKm <= AMBIGUOUS_DISTANCE_MARGIN_KM,
+  );
+  return match(
+    "proximity",
+    [nearest, ...rivals].map(({ city }) => city),
+  );
+}
+
+export function matchWarehouses(
+  warehouses: Warehouse[],
+  cities: City[],
+): WarehouseCityMatch[] {
+  const index = indexCities(cities);
+  return warehouses.map((warehouse) => matchWarehouseCity(warehouse, index));
+}
+
+/** Whether two city names spell the same city */
+export function isSameCityName(a: string, b: string): boolean {
+  const key = cityNameKey(a);
+  return key !== "" && key === cityNameKey(b);
+}
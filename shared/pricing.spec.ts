@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculatePriceBreakdown,
+  getZone,
+  quoteFromRateCard,
+  roundBilledWeight,
+} from "./pricing";
+
+const tashkent = { latitude: 41.311081, longitude: 69.240562 };
+const yunusabad = { latitude: 41.3645, longitude: 69.2856 };
+const samarkand = { latitude: 39.654167, longitude: 66.959722 };
+const nukus = { latitude: 42.46, longitude: 59.61 };
+
+function quote(
+  from: typeof tashkent,
+  to: typeof tashkent,
+  weight: number,
+  tariff_type: Parameters<typeof quoteFromRateCard>[0]["tariff_type"],
+) {
+  return quoteFromRateCard({
+    from_latitude: from.latitude,
+    from_longitude: from.longitude,
+    to_latitude: to.latitude,
+    to_longitude: to.longitude,
+    weight,
+    tariff_type,
+  });
+}
+
+describe("getZone", () => {
+  it("should look the zone up between the nearest hubs", () => {
+    expect(getZone(tashkent, yunusabad)).toBe(0);
+    expect(getZone(tashkent, samarkand)).toBe(2);
+    expect(getZone(samarkand, nukus)).toBe(3);
+  });
+});
+
+describe("roundBilledWeight", () => {
+  it("should round up to whole kilograms", () => {
+    expect(roundBilledWeight(0.3)).toBe(1);
+    expect(roundBilledWeight(2)).toBe(2);
+    expect(roundBilledWeight(2.1)).toBe(3);
+  });
+});
+
+describe("quoteFromRateCard", () => {
+  it("should price office deliveries by zone", () => {
+    expect(quote(tashkent, samarkand, 2.4, "OFFICE_OFFICE")).toEqual({
+      tariff_type: "OFFICE_OFFICE",
+      zone: 2,
+      column: "zone2",
+      billedWeight: 3,
+      total: 40000,
+    });
+  });
+
+  it("should use the Tashkent column for door deliveries within the city", () => {
+    expect(quote(tashkent, yunusabad, 1, "DOOR_DOOR")?.total).toBe(15000);
+    expect(quote(tashkent, samarkand, 1, "DOOR_DOOR")?.total).toBe(35000);
+  });
+
+  it("should add the per-kilogram rate past the last row", () => {
+    expect(quote(tashkent, samarkand, 22, "OFFICE_OFFICE")?.total).toBe(135000);
+  });
+
+  it("should refuse weights over the limits", () => {
+    expect(quote(tashkent, samarkand, 31, "OFFICE_OFFICE")).toBeNull();
+    expect(quote(tashkent, samarkand, 11, "OFFICE_POSTAMAT")).toBeNull();
+    expect(quote(tashkent, samarkand, 10, "OFFICE_POSTAMAT")?.total).toBe(
+      20000,
+    );
+  });
+});
+
+describe("calculatePriceBreakdown", () => {
+  it("should add VAT to the delivery price alone", () => {
+    expect(calculatePriceBreakdown({ delivery: 25000 })).toEqual({
+      vatRate: 0.12,
+      delivery: { net: 25000, vat: 3000, gross: 28000 },
+      codFee: { net: 0, vat: 0, gross: 0 },
+      declaredValueFee: { net: 0, vat: 0, gross: 0 },
+      total: { net: 25000, vat: 3000, gross: 28000 },
+    });
+  });
+
+  it("should take VAT out of the COD fee and add it to the surcharge", () => {
+    const breakdown = calculatePriceBreakdown({
+      delivery: 0,
+      codAmount: 112_000,
+      declaredValue: 100_000,
+    });
+
+    // 3% of 112 000 is 3 360 with VAT, 3 000 without
+    expect(breakdown.codFee).toEqual({ net: 3000, vat: 360, gross: 3360 });
+    expect(breakdown.declaredValueFee).toEqual({
+      net: 1000,
+      vat: 120,
+      gross: 1120,
+    });
+    expect(breakdown.total.gross).toBe(3360 + 1120);
+  });
+
+  it("should apply the given VAT rate", () => {
+    const breakdown = calculatePriceBreakdown({
+      delivery: 10000,
+      vatRate: 0.15,
+    });
+
+    expect(breakdown.total).toEqual({ net: 10000, vat: 1500, gross: 11500 });
+  });
+});
@@ -0,0 +1,522 @@
+import { PriceBreakdown, PriceLine, TariffType } from "./api";
+import { Coordinates, haversineKm } from "./geo";
+
+/**
+ * Local pricing from the published FARGO rate card (prices excluding VAT).
+ * Used by the server when the gateway cannot quote, and by the rate tables
+ * on the calculator page. Quotes from here are estimates.
+ */
+
+export interface RateCardRow {
+  weight: number;
+  zone0: number;
+  zone1: number;
+  zone2: number;
+  zone3: number;
+  /** Pickup from / delivery to the customer's door */
+  customer: number;
+  /** Door pickup or delivery within Tashkent city */
+  tashkent: number;
+  /** Delivery to a locker, only up to MAX_LOCKER_WEIGHT_KG */
+  locker: number | null;
+}
+
+export type RateCardColumn = Exclude<keyof RateCardRow, "weight">;
+
+export interface ZoneHub {
+  names: {
+    ru: string;
+    uz: string;
+    en: string;
+  };
+  latitude: number;
+  longitude: number;
+}
+
+// One shipment may not weigh more than this
+export const MAX_RATE_CARD_WEIGHT_KG = 30;
+export const MAX_LOCKER_WEIGHT_KG = 10;
+
+// Every kilogram past the last row of the card costs this much
+export const EXTRA_KG_PRICE = 5000;
+
+// Default VAT rate; the server may be configured with another one
+export const VAT_RATE = 0.12;
+// 3% of the collected cash, VAT included
+export const COD_FEE_RATE = 0.03;
+// 1% of the declared value, VAT excluded
+export const DECLARED_VALUE_FEE_RATE = 0.01;
+
+// Both ends within this distance of the Tashkent hub count as intra-city
+export const TASHKENT_CITY_RADIUS_KM = 15;
+
+export const RATE_CARD: RateCardRow[] = [
+  {
+    weight: 1,
+    zone0: 20000,
+    zone1: 25000,
+    zone2: 30000,
+    zone3: 35000,
+    customer: 35000,
+    tashkent: 15000,
+    locker: 20000,
+  },
+  {
+    weight: 2,
+    zone0: 25000,
+    zone1: 30000,
+    zone2: 35000,
+    zone3: 40000,
+    customer: 40000,
+    tashkent: 20000,
+    locker: 20000,
+  },
+  {
+    weight: 3,
+    zone0: 30000,
+    zone1: 35000,
+    zone2: 40000,
+    zone3: 45000,
+    customer: 45000,
+    tashkent: 25000,
+    locker: 20000,
+  },
+  {
+    weight: 4,
+    zone0: 35000,
+    zone1: 40000,
+    zone2: 45000,
+    zone3: 50000,
+    customer: 50000,
+    tashkent: 30000,
+    locker: 20000,
+  },
+  {
+    weight: 5,
+    zone0: 40000,
+    zone1: 45000,
+    zone2: 50000,
+    zone3: 55000,
+    customer: 55000,
+    tashkent: 35000,
+    locker: 20000,
+  },
+  {
+    weight: 6,
+    zone0: 45000,
+    zone1: 50000,
+    zone2: 55000,
+    zone3: 60000,
+    customer: 60000,
+    tashkent: 40000,
+    locker: 20000,
+  },
+  {
+    weight: 7,
+    zone0: 50000,
+    zone1: 55000,
+    zone2: 60000,
+    zone3: 65000,
+    customer: 65000,
+    tashkent: 45000,
+    locker: 20000,
+  },
+  {
+    weight: 8,
+    zone0: 55000,
+    zone1: 60000,
+    zone2: 65000,
+    zone3: 70000,
+    customer: 70000,
+    tashkent: 50000,
+    locker: 20000,
+  },
+  {
+    weight: 9,
+    zone0: 60000,
+    zone1: 65000,
+    zone2: 70000,
+    zone3: 75000,
+    customer: 75000,
+    tashkent: 55000,
+    locker: 20000,
+  },
+  {
+    weight: 10,
+    zone0: 65000,
+    zone1: 70000,
+    zone2: 75000,
+    zone3: 80000,
+    customer: 80000,
+    tashkent: 60000,
+    locker: 20000,
+  },
+  {
+    weight: 11,
+    zone0: 70000,
+    zone1: 75000,
+    zone2: 80000,
+    zone3: 85000,
+    customer: 85000,
+    tashkent: 65000,
+    locker: null,
+  },
+  {
+    weight: 12,
+    zone0: 75000,
+    zone1: 80000,
+    zone2: 85000,
+    zone3: 90000,
+    customer: 90000,
+    tashkent: 70000,
+    locker: null,
+  },
+  {
+    weight: 13,
+    zone0: 80000,
+    zone1: 85000,
+    zone2: 90000,
+    zone3: 95000,
+    customer: 95000,
+    tashkent: 75000,
+    locker: null,
+  },
+  {
+    weight: 14,
+    zone0: 85000,
+    zone1: 90000,
+    zone2: 95000,
+    zone3: 100000,
+    customer: 100000,
+    tashkent: 80000,
+    locker: null,
+  },
+  {
+    weight: 15,
+    zone0: 90000,
+    zone1: 95000,
+    zone2: 100000,
+    zone3: 105000,
+    customer: 105000,
+    tashkent: 85000,
+    locker: null,
+  },
+  {
+    weight: 16,
+    zone0: 95000,
+    zone1: 100000,
+    zone2: 105000,
+    zone3: 110000,
+    customer: 110000,
+    tashkent: 90000,
+    locker: null,
+  },
+  {
+    weight: 17,
+    zone0: 100000,
+    zone1: 105000,
+    zone2: 110000,
+    zone3: 115000,
+    customer: 115000,
+    tashkent: 95000,
+    locker: null,
+  },
+  {
+    weight: 18,
+    zone0: 105000,
+    zone1: 110000,
+    zone2: 115000,
+    zone3: 120000,
+    customer: 120000,
+    tashkent: 100000,
+    locker: null,
+  },
+  {
+    weight: 19,
+    zone0: 110000,
+    zone1: 115000,
+    zone2: 120000,
+    zone3: 125000,
+    customer: 125000,
+    tashkent: 105000,
+    locker: null,
+  },
+  {
+    weight: 20,
+    zone0: 115000,
+    zone1: 120000,
+    zone2: 125000,
+    zone3: 130000,
+    customer: 130000,
+    tashkent: 110000,
+    locker: null,
+  },
+];
+
+// Cities the zone matrix is defined between, in matrix order
+export const ZONE_HUBS: ZoneHub[] = [
+  {
+    names: { ru: "Ташкент", uz: "Toshkent", en: "Tashkent" },
+    latitude: 41.311081,
+    longitude: 69.240562,
+  },
+  {
+    names: { ru: "Чирчик", uz: "Chirchiq", en: "Chirchiq" },
+    latitude: 41.468889,
+    longitude: 69.582222,
+  },
+  {
+    names: { ru: "Ангрен", uz: "Angren", en: "Angren" },
+    latitude: 41.016667,
+    longitude: 70.143611,
+  },
+  {
+    names: { ru: "Гулистан", uz: "Guliston", en: "Gulistan" },
+    latitude: 40.489722,
+    longitude: 68.784167,
+  },
+  {
+    names: { ru: "Джизак", uz: "Jizzax", en: "Jizzak" },
+    latitude: 40.115833,
+    longitude: 67.842222,
+  },
+  {
+    names: { ru: "Самарканд", uz: "Samarqand", en: "Samarkand" },
+    latitude: 39.654167,
+    longitude: 66.959722,
+  },
+  {
+    names: { ru: "Каттакурган", uz: "Kattaqo'rg'on", en: "Kattakurgan" },
+    latitude: 39.898889,
+    longitude: 66.256111,
+  },
+  {
+    names: { ru: "Фергана", uz: "Farg'ona", en: "Fergana" },
+    latitude: 40.386389,
+    longitude: 71.786389,
+  },
+  {
+    names: { ru: "Коканд", uz: "Qo'qon", en: "Kokand" },
+    latitude: 40.528611,
+    longitude: 70.9425,
+  },
+  {
+    names: { ru: "Наманган", uz: "Namangan", en: "Namangan" },
+    latitude: 40.998333,
+    longitude: 71.672578,
+  },
+  {
+    names: { ru: "Андижан", uz: "Andijon", en: "Andijan" },
+    latitude: 40.782064,
+    longitude: 72.344236,
+  },
+  {
+    names: { ru: "Карши", uz: "Qarshi", en: "Karshi" },
+    latitude: 38.860556,
+    longitude: 65.784722,
+  },
+  {
+    names: { ru: "Шахрисабз", uz: "Shahrisabz", en: "Shahrisabz" },
+    latitude: 39.057778,
+    longitude: 66.834167,
+  },
+  {
+    names: { ru: "Термез", uz: "Termiz", en: "Termez" },
+    latitude: 37.224167,
+    longitude: 67.278333,
+  },
+  {
+    names: { ru: "Денау", uz: "Denov", en: "Denau" },
+    latitude: 38.266667,
+    longitude: 67.9,
+  },
+  {
+    names: { ru: "Бухара", uz: "Buxoro", en: "Bukhara" },
+    latitude: 39.774722,
+    longitude: 64.428611,
+  },
+  {
+    names: { ru: "Гиждуван", uz: "G'ijduvon", en: "Gijduvan" },
+    latitude: 40.1,
+    longitude: 64.683333,
+  },
+  {
+    names: { ru: "Навои", uz: "Navoiy", en: "Navoi" },
+    latitude: 40.084444,
+    longitude: 65.379167,
+  },
+  {
+    names: { ru: "Зарафшан", uz: "Zarafshon", en: "Zarafshan" },
+    latitude: 41.566667,
+    longitude: 64.2,
+  },
+  {
+    names: { ru: "Ургенч", uz: "Urganch", en: "Urgench" },
+    latitude: 41.55,
+    longitude: 60.633333,
+  },
+  {
+    names: { ru: "Нукус", uz: "Nukus", en: "Nukus" },
+    latitude: 42.46,
+    longitude: 59.61,
+  },
+];
+
+// Zone (0-3) between two hubs, indexed like ZONE_HUBS
+export const ZONE_MATRIX: number[][] = [
+  [0, 1, 1, 2, 2, 2, 2, 2, 2, 2, 2, 2, 3, 3, 3, 2, 2, 2, 3, 3, 3],
+  [1, 0, 2, 2, 2, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3],
+  [1, 2, 0, 3, 3, 3, 3, 2, 2, 2, 2, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3],
+  [2, 2, 3, 0, 2, 2, 2, 3, 3, 3, 3, 3, 3, 3, 3, 2, 2, 3, 3, 3, 3],
+  [2, 2, 3, 2, 0, 2, 2, 3, 3, 3, 3, 3, 3, 3, 3, 2, 2, 2, 3, 3, 3],
+  [2, 3, 3, 2, 2, 0, 1, 3, 3, 3, 3, 2, 3, 3, 3, 2, 2, 2, 3, 3, 3],
+  [2, 3, 3, 2, 2, 1, 0, 3, 3, 3, 3, 3, 3, 3, 3, 2, 2, 2, 3, 3, 3],
+  [2, 3, 2, 3, 3, 3, 3, 0, 1, 1, 1, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3],
+  [2, 3, 2, 3, 3, 3, 3, 1, 0, 1, 1, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3],
+  [2, 3, 2, 3, 3, 3, 3, 1, 1, 0, 1, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3],
+  [2, 3, 2, 3, 3, 3, 3, 1, 1, 1, 0, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3],
+  [2, 3, 3, 3, 3, 2, 3, 3, 3, 3, 3, 0, 2, 2, 3, 3, 3, 3, 3, 3, 3],
+  [3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 2, 0, 3, 3, 3, 3, 3, 3, 3, 3],
+  [3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 2, 3, 0, 2, 3, 3, 3, 3, 3, 3],
+  [3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 2, 0, 3, 3, 3, 3, 3, 3],
+  [2, 3, 3, 2, 2, 2, 2, 3, 3, 3, 3, 3, 3, 3, 3, 0, 1, 2, 3, 3, 3],
+  [2, 3, 3, 2, 2, 2, 2, 3, 3, 3, 3, 3, 3, 3, 3, 1, 0, 2, 3, 3, 3],
+  [2, 3, 3, 3, 2, 2, 2, 3, 3, 3, 3, 3, 3, 3, 3, 2, 2, 0, 2, 3, 3],
+  [3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 2, 0, 3, 3],
+  [3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 0, 2],
+  [3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 3, 2, 0],
+];
+
+export interface RateCardQuote {
+  tariff_type: TariffType;
+  zone: number;
+  column: RateCardColumn;
+  /** Weight rounded up to the card's 1 kg step */
+  billedWeight: number;
+  total: number;
+}
+
+/** Index in ZONE_HUBS of the hub closest to a point */
+export function findNearestHub(point: Coordinates): number {
+  let nearest = 0;
+  let nearestDistance = Infinity;
+
+  ZONE_HUBS.forEach((hub, index) => {
+    const distance = haversineKm(point, hub);
+    if (distance < nearestDistance) {
+      nearest = index;
+      nearestDistance = distance;
+    }
+  });
+
+  return nearest;
+}
+
+export function getZone(from: Coordinates, to: Coordinates): number {
+  return ZONE_MATRIX[findNearestHub(from)][findNearestHub(to)];
+}
+
+export function roundBilledWeight(weight: number): number {
+  return Math.max(1, Math.ceil(weight));
+}
+
+function isInTashkent(point: Coordinates): boolean {
+  return haversineKm(point, ZONE_HUBS[0]) <= TASHKENT_CITY_RADIUS_KM;
+}
+
+function priceFor(column: RateCardColumn, billedWeight: number): number | null {
+  const lastRow = RATE_CARD[RATE_CARD.length - 1];
+  if (billedWeight <= lastRow.weight) {
+    return RATE_CARD[billedWeight - 1][column];
+  }
+
+  const lastPrice = lastRow[column];
+  return lastPrice === null
+    ? null
+    : lastPrice + (billedWeight - lastRow.weight) * EXTRA_KG_PRICE;
+}
+
+/**
+ * Prices a shipment from the rate card, or returns null when the card does
+ * not cover it (over the weight limit, or too heavy for a locker).
+ * `weight` is the chargeable weight in kg.
+ */
+export function quoteFromRateCard(input: {
+  from_latitude: number;
+  from_longitude: number;
+  to_latitude: number;
+  to_longitude: number;
+  weight: number;
+  tariff_type: TariffType;
+}): RateCardQuote | null {
+  const billedWeight = roundBilledWeight(input.weight);
+  if (billedWeight > MAX_RATE_CARD_WEIGHT_KG) return null;
+
+  const from = {
+    latitude: input.from_latitude,
+    longitude: input.from_longitude,
+  };
+  const to = { latitude: input.to_latitude, longitude: input.to_longitude };
+  const zone = getZone(from, to);
+
+  let column: RateCardColumn;
+  if (input.tariff_type.endsWith("POSTAMAT")) {
+    if (billedWeight > MAX_LOCKER_WEIGHT_KG) return null;
+    column = "locker";
+  } else if (input.tariff_type.includes("DOOR")) {
+    column = isInTashkent(from) && isInTashkent(to) ? "tashkent" : "customer";
+  } else {
+    column = `zone${zone}` as RateCardColumn;
+  }
+
+  const total = priceFor(column, billedWeight);
+  if (total === null) return null;
+
+  return { tariff_type: input.tariff_type, zone, column, billedWeight, total };
+}
+
+function fromNet(net: number, vatRate: number): PriceLine {
+  const vat = Math.round(net * vatRate);
+  return { net, vat, gross: net + vat };
+}
+
+function fromGross(gross: number, vatRate: number): PriceLine {
+  const net = Math.round(gross / (1 + vatRate));
+  return { net, vat: gross - net, gross };
+}
+
+/**
+ * Itemizes a quote: the delivery price (excluding VAT) plus the COD
+ * commission and declared-value surcharge from the additional services
+ * section of the rate card, each with net, VAT and gross amounts.
+ * Amounts are rounded to whole sums.
+ */
+export function calculatePriceBreakdown(input: {
+  delivery: number;
+  codAmount?: number;
+  declaredValue?: number;
+  vatRate?: number;
+}): PriceBreakdown {
+  const vatRate = input.vatRate ?? VAT_RATE;
+  const delivery = fromNet(input.delivery, vatRate);
+  // The COD rate already includes VAT
+  const codFee = fromGross(
+    Math.round((input.codAmount ?? 0) * COD_FEE_RATE),
+    vatRate,
+  );
+  const declaredValueFee = fromNet(
+    Math.round((input.declaredValue ?? 0) * DECLARED_VALUE_FEE_RATE),
+    vatRate,
+  );
+  const lines = [delivery, codFee, declaredValueFee];
+  const sum = (key: keyof PriceLine) =>
+    lines.reduce((total, line) => total + line[key], 0);
+
+  return {
+    vatRate,
+    delivery,
+    codFee,
+    declaredValueFee,
+    total: { net: sum("net"), vat: sum("vat"), gross: sum("gross") },
+  };
+}
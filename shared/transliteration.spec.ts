@@ -0,0 +1,109 @@
+import { describe, it, expect } from "vitest";
+import {
+  foldSpelling,
+  matchKey,
+  matchesSearch,
+  normalizeWords,
+  searchKey,
+  transliterate,
+} from "./transliteration";
+
+describe("transliterate", () => {
+  it("should write Russian and Uzbek Cyrillic in Uzbek Latin", () => {
+    expect(transliterate("Самарканд")).toBe("samarkand");
+    expect(transliterate("Самарқанд")).toBe("samarqand");
+    expect(transliterate("Ўзбекистон")).toBe("oʻzbekiston");
+    expect(transliterate("Фарғона")).toBe("fargʻona");
+    expect(transliterate("Чирчиқ, Шаҳрихон")).toBe("chirchiq, shahrixon");
+  });
+
+  it("should unify the oʻ and gʻ apostrophes", () => {
+    for (const spelling of ["Farg'ona", "Fargʻona", "Farg‘ona", "Farg’ona"]) {
+      expect(transliterate(spelling)).toBe("fargʻona");
+    }
+    expect(transliterate("Qo`qon")).toBe("qoʻqon");
+  });
+});
+
+describe("normalizeWords", () => {
+  it("should drop apostrophes and punctuation", () => {
+    expect(normalizeWords("  Qoʻqon-Shahri ")).toEqual(["qoqon", "shahri"]);
+    expect(normalizeWords("Fargona")).toEqual(normalizeWords("Farg'ona"));
+  });
+
+  it("should spell out administrative abbreviations", () => {
+    expect(normalizeWords("Toshkent sh.")).toEqual(["toshkent", "shahri"]);
+    expect(normalizeWords("Andijon t.")).toEqual(["andijon", "tumani"]);
+    expect(normalizeWords("г. Андижан")).toEqual(["shahri", "andijan"]);
+    expect(normalizeWords("Кувинский р-н")).toEqual(["kuvinskiy", "tumani"]);
+    expect(normalizeWords("Каганский район")).toEqual(["kaganskiy", "tumani"]);
+    expect(normalizeWords("Андижанская обл.")).toEqual([
+      "andijanskaya",
+      "viloyati",
+    ]);
+  });
+
+  it("should leave lone abbreviations and the word being typed alone", () => {
+    expect(normalizeWords("t")).toEqual(["t"]);
+    expect(normalizeWords("т.")).toEqual(["tumani"]);
+    expect(normalizeWords("г")).toEqual(["g"]);
+    expect(normalizeWords("г. Анд", { typing: true })).toEqual([
+      "shahri",
+      "and",
+    ]);
+    expect(normalizeWords("Andijon t.", { typing: true })).toEqual([
+      "andijon",
+      "t",
+    ]);
+  });
+});
+
+describe("matchKey", () => {
+  it("should give Russian and Uzbek names of the same place the same key", () => {
+    expect(matchKey("Toshkent")).toBe(matchKey("Ташкент"));
+    expect(matchKey("Fargʻona")).toBe(matchKey("Фергана"));
+    expect(matchKey("Samarqand")).toBe(matchKey("Самарканд"));
+    expect(matchKey("Kogon shahri", ["city"])).toBe(
+      matchKey("г. Каган", ["city"]),
+    );
+  });
+
+  it("should keep names that differ only in a, e and o apart", () => {
+    expect(matchKey("Kogon")).not.toBe(matchKey("Kegen"));
+    expect(searchKey("Kogon")).toBe(searchKey("Kegen"));
+  });
+});
+
+describe("searchKey", () => {
+  it("should give every spelling of a name the same key", () => {
+    const samarkand = searchKey("Samarkand");
+    for (const spelling of ["Самарканд", "Samarqand", "Самарқанд"]) {
+      expect(searchKey(spelling)).toBe(samarkand);
+    }
+    expect(searchKey("Fargʻona")).toBe(searchKey("Фергана"));
+    expect(searchKey("Toshkent")).toBe(searchKey("Ташкент"));
+    expect(searchKey("Buxoro")).toBe(searchKey("Бухара"));
+    expect(searchKey("Xorazm")).toBe(searchKey("Хорезм"));
+  });
+
+  it("should keep different names apart", () => {
+    expect(searchKey("Андижан")).not.toBe(searchKey("Ташкент"));
+    expect(foldSpelling("shahri")).not.toBe(foldSpelling("sahri"));
+  });
+
+  it("should leave out administrative words of the given kinds", () => {
+    expect(searchKey("Andijon shahri", ["city"])).toBe(searchKey("Андижан"));
+    expect(searchKey("Andijon tumani", ["city"])).not.toBe(
+      searchKey("Андижан"),
+    );
+    expect(searchKey("Andijon t.", ["district"])).toBe(searchKey("Andijon"));
+  });
+});
+
+describe("matchesSearch", () => {
+  it("should find text whatever script the query is typed in", () => {
+    expect(matchesSearch("FARGO Самарканд", "samarq")).toBe(true);
+    expect(matchesSearch("ул. Мустакиллик, 33", "mustaqil")).toBe(true);
+    expect(matchesSearch("FARGO Бухара", "Toshkent")).toBe(false);
+  });
+});
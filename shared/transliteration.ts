@@ -0,0 +1,215 @@
+/**
+ * Spelling-insensitive text for searching and matching place names.
+ * People write the same place in Russian, Uzbek Cyrillic or Uzbek Latin
+ * ("Самарканд", "Самарқанд", "Samarqand", "Samarkand"), with any of
+ * several apostrophes in oʻ and gʻ, and with abbreviations such as "sh."
+ * or "р-н". Everything is brought to lowercase Uzbek Latin first; match
+ * keys then fold the consonant spellings that differ between Russian and
+ * Uzbek, and search keys also fold vowels for as-you-type lookups.
+ */
+
+export type AdministrativeKind = "city" | "district" | "region";
+
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  а: "a",
+  б: "b",
+  в: "v",
+  г: "g",
+  ғ: "gʻ",
+  д: "d",
+  е: "e",
+  ё: "yo",
+  ж: "j",
+  з: "z",
+  и: "i",
+  й: "y",
+  к: "k",
+  қ: "q",
+  л: "l",
+  м: "m",
+  н: "n",
+  о: "o",
+  п: "p",
+  р: "r",
+  с: "s",
+  т: "t",
+  у: "u",
+  ў: "oʻ",
+  ф: "f",
+  х: "x",
+  ҳ: "h",
+  ц: "ts",
+  ч: "ch",
+  ш: "sh",
+  щ: "sh",
+  ъ: "ʼ",
+  ы: "i",
+  ь: "",
+  э: "e",
+  ю: "yu",
+  я: "ya",
+};
+
+// Everything used for the okina in oʻ and gʻ, and for the tutuq belgisi
+const APOSTROPHES = /['`´ʻʼ‘’]/g;
+
+// Synonyms of the administrative words, after transliteration, mapped to
+// their Uzbek form
+const ADMINISTRATIVE_ALIASES: Record<string, string> = {
+  shahar: "shahri",
+  gorod: "shahri",
+  city: "shahri",
+  tuman: "tumani",
+  rayon: "tumani",
+  district: "tumani",
+  viloyat: "viloyati",
+  oblast: "viloyati",
+  region: "viloyati",
+};
+
+// Abbreviations of the administrative words. Alone and without a dot they
+// are more likely the start of a name: "t" is Toshkent, not "tumani".
+const ADMINISTRATIVE_ABBREVIATIONS: Record<string, string> = {
+  sh: "shahri",
+  g: "shahri",
+  gor: "shahri",
+  t: "tumani",
+  rn: "tumani",
+  vil: "viloyati",
+  obl: "viloyati",
+};
+
+const ADMINISTRATIVE_KINDS: Record<string, AdministrativeKind> = {
+  shahri: "city",
+  tumani: "district",
+  viloyati: "region",
+};
+
+// Spellings that differ between Russian and Uzbek for the same sound
+const SPELLING_FOLDS: [RegExp, string][] = [
+  [/zh|dj/g, "j"],
+  [/kh/g, "x"],
+  [/(?<![sc])h/g, "x"],
+  [/q/g, "k"],
+  [/ts/g, "s"],
+  [/ye/g, "e"],
+  // Russian adjectives: Андижанский / Andijonskiy
+  [/iy$/g, "i"],
+  [/(.)\1+/g, "$1"],
+];
+
+// Russian names whose vowels differ from the Uzbek ones, both spelling-folded.
+// Vowels are not folded in general, or Kogon and Kegen would be one place.
+const RUSSIAN_VOWEL_SPELLINGS: Record<string, string> = {
+  almalik: "olmalik",
+  andijan: "andijon",
+  axangaran: "oxangaron",
+  bekabad: "bekobod",
+  buxara: "buxoro",
+  fergana: "fargona",
+  gulistan: "guliston",
+  jizak: "jizax",
+  kagan: "kogon",
+  katakurgan: "katakorgon",
+  kokand: "kokon",
+  margilan: "margilon",
+  nurafshan: "nurafshon",
+  tashkent: "toshkent",
+  termez: "termiz",
+  urgench: "urganch",
+  xanabad: "xonobod",
+  xorezm: "xorazm",
+  yangiyul: "yangiyol",
+  zarafshan: "zarafshon",
+};
+
+// Search keys tolerate any a/e/o mix-up, so partial queries such as "tashk"
+// or "ferg" find the Uzbek names too
+const VOWEL_FOLDS: [RegExp, string][] = [
+  [/[eo]/g, "a"],
+  [/(.)\1+/g, "$1"],
+];
+
+const applyFolds = (word: string, folds: [RegExp, string][]) =>
+  folds.reduce(
+    (folded, [pattern, replacement]) => folded.replace(pattern, replacement),
+    word,
+  );
+
+/** Uzbek and Russian Cyrillic to Uzbek Latin, lowercased, oʻ and gʻ unified */
+export function transliterate(text: string): string {
+  return Array.from(text.toLowerCase().normalize("NFC"))
+    .map((char) => CYRILLIC_TO_LATIN[char] ?? char)
+    .join("")
+    .replace(/([og])['`´ʼ‘’]/g, "$1ʻ");
+}
+
+export interface NormalizeOptions {
+  /** The text is still being typed, so its last word stays as it is */
+  typing?: boolean;
+}
+
+/**
+ * Lowercase Latin words without apostrophes or punctuation, with
+ * administrative words spelled out: "Qoʻqon sh." -> "qoqon shahri".
+ * Abbreviations count only with a dot or next to another word.
+ */
+export function normalizeWords(
+  text: string,
+  { typing = false }: NormalizeOptions = {},
+): string[] {
+  const tokens = Array.from(
+    transliterate(text)
+      .replace(APOSTROPHES, "")
+      .replace(/(^|[^a-z])r-n(?![a-z])/g, "$1rn.")
+      .matchAll(/([\p{L}\p{N}]+)(\.)?/gu),
+  );
+
+  return tokens.map(([, word, dot], index) => {
+    if (typing && index === tokens.length - 1) return word;
+    const abbreviation = ADMINISTRATIVE_ABBREVIATIONS[word];
+    if (abbreviation && (dot || tokens.length > 1)) return abbreviation;
+    return ADMINISTRATIVE_ALIASES[word] ?? word;
+  });
+}
+
+/** Same key for spellings of the same word across scripts and languages */
+export function foldSpelling(word: string): string {
+  const folded = applyFolds(word, SPELLING_FOLDS);
+  return RUSSIAN_VOWEL_SPELLINGS[folded] ?? folded;
+}
+
+/**
+ * Match key of a text: normalized and spelling-folded words, without the
+ * administrative words of the given kinds. Strict enough to tell places apart.
+ */
+export function matchKey(
+  text: string,
+  omit: AdministrativeKind[] = [],
+  options?: NormalizeOptions,
+): string {
+  return normalizeWords(text, options)
+    .filter((word) => !omit.includes(ADMINISTRATIVE_KINDS[word]))
+    .map(foldSpelling)
+    .join(" ");
+}
+
+/**
+ * Search key of a text: its match key with vowels folded too. Loose, so
+ * different places may share one; use it to find, not to identify.
+ */
+export function searchKey(
+  text: string,
+  omit: AdministrativeKind[] = [],
+  options?: NormalizeOptions,
+): string {
+  return matchKey(text, omit, options)
+    .split(" ")
+    .map((word) => applyFolds(word, VOWEL_FOLDS))
+    .join(" ");
+}
+
+/** Whether the text contains the query, however either is spelled */
+export function matchesSearch(text: string, query: string): boolean {
+  return searchKey(text).includes(searchKey(query, [], { typing: true }));
+}
@@ -1,7 +1,6 @@
-import { defineConfig, Plugin } from "vite";
+import { defineConfig, loadEnv, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
-import { createServer } from "./server";
 
 // https://vitejs.dev/config/
 export default defineConfig(({ mode }) => ({
@@ -21,11 +20,32 @@ export default defineConfig(({ mode }) => ({
   },
 }));
 
+// Every variable server/config.ts reads, by name or prefix
+const SERVER_ENV_PREFIXES = [
+  "FARGO_",
+  "CACHE_",
+  "PRICING_",
+  "VAT_",
+  "RATE_LIMIT_",
+  "TRUST_PROXY",
+  "LOG_LEVEL",
+  "BUILD_VERSION",
+  "ADMIN_TOKEN",
+];
+
 function expressPlugin(): Plugin {
   return {
     name: "express-plugin",
-    apply: "serve", // Only apply during development (serve mode)
-    configureServer(server) {
+    // Only apply during development (serve mode), not under vitest
+    apply: (_config, { command }) => command === "serve" && !process.env.VITEST,
+    async configureServer(server) {
+      // Expose the server settings from .env files to the Express server
+      Object.assign(
+        process.env,
+        loadEnv(server.config.mode, process.cwd(), SERVER_ENV_PREFIXES),
+      );
+      // Load through Vite so the server can use the @shared alias at runtime
+      const { createServer } = await server.ssrLoadModule("./server");
       const app = createServer();
 
       // Add Express app as middleware to Vite dev server